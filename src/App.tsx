@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Canvas, calculateCenteredTransform } from './components/Canvas';
+import { Canvas } from './components/Canvas';
+import { calculateCenteredTransform } from './types/canvas';
 import { SimulationControls } from './components/SimulationControls';
 import { useSimulationStore } from './store/simulationStore';
 import CommandPalette from './components/CommandPalette';
+import { CollisionNotifications } from './components/CollisionNotifications';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { EventLogPanel } from './components/EventLogPanel';
+import { SceneErrorNotice } from './components/SceneErrorNotice';
+import { isTextEntryTarget } from './components/keyboard';
 
 const App: React.FC = () => {
-  const [mode, setMode] = useState<'pan' | 'add'>('add');
+  const [mode, setMode] = useState<'pan' | 'add' | 'target'>('add');
   const [tempPanMode, setTempPanMode] = useState(false);
   const [isDragging, setIsLocalDragging] = useState(false);
   const [transform, setTransform] = useState(calculateCenteredTransform());
@@ -38,9 +44,17 @@ const App: React.FC = () => {
     setMode(prevMode => prevMode === 'pan' ? 'add' : 'pan');
   };
 
+  // The target tool picks a departure and an arrival body for an intercept
+  const toggleTargetMode = () => {
+    setMode(prevMode => prevMode === 'target' ? 'add' : 'target');
+  };
+
   // Handle spacebar press for toggling play/pause and temporary pan mode
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Spaces typed into a field belong to the field
+      if (isTextEntryTarget(e.target)) return;
+
       if (e.code === 'Space') {
         if (!spacebarPressed) {
           setSpacebarPressed(true);
@@ -124,6 +138,39 @@ const App: React.FC = () => {
         >
           {mode === 'pan' ? '🖐️ Pan Mode' : '✏️ Add Mode'}
         </button>
+        <button
+          onClick={toggleTargetMode}
+          style={{
+            background: mode === 'target' ? '#FF4081' : '#607D8B',
+            color: 'white',
+            border: 'none',
+            padding: '8px 15px',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            boxShadow: '0 2px 5px rgba(0,0,0,0.2)'
+          }}
+        >
+          🎯 Target
+        </button>
+        {/* What a click adds in add mode */}
+        <button
+          onClick={() => setSelectedItemType(prev => prev === 'planet' ? 'spacecraft' : 'planet')}
+          style={{
+            background: selectedItemType === 'spacecraft' ? '#009688' : '#3F51B5',
+            color: 'white',
+            border: 'none',
+            padding: '8px 15px',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            boxShadow: '0 2px 5px rgba(0,0,0,0.2)'
+          }}
+        >
+          {selectedItemType === 'spacecraft' ? '🚀 Spacecraft' : '🪐 Planet'}
+        </button>
         <div style={{
           background: 'rgba(30, 30, 40, 0.8)',
           padding: '8px 12px',
@@ -132,7 +179,9 @@ const App: React.FC = () => {
           fontSize: '14px',
           boxShadow: '0 2px 5px rgba(0,0,0,0.2)'
         }}>
-          {mode === 'pan' ? 'Scroll to zoom in/out' : 'Press Space to pan, Alt+Scroll to zoom'}
+          {mode === 'pan' ? 'Scroll to zoom in/out'
+            : mode === 'target' ? 'Click a departure body, then the body to intercept'
+            : 'Press Space to pan, Alt+Scroll to zoom'}
         </div>
       </div>
 
@@ -145,10 +194,15 @@ const App: React.FC = () => {
         selectedItemType={selectedItemType}
       />
       <SimulationControls onCenterView={handleCenterView} />
+      <DiagnosticsPanel />
+      <EventLogPanel />
+      <CollisionNotifications />
+      <SceneErrorNotice />
       <CommandPalette 
         onCenterView={handleCenterView} 
         mode={mode}
         toggleMode={toggleMode}
+        toggleTargetMode={toggleTargetMode}
       />
     </div>
   );
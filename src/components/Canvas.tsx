@@ -1,68 +1,97 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  apsides,
+  circularOrbitVelocity,
+  createRandom,
+  clearTimeline,
+  createTimeline,
+  decomposeVelocity,
+  Divergence,
+  findDominantBody,
+  findPrimary,
+  ForceContribution,
+  frameAt,
+  InterceptPlan,
+  isPinned,
+  LagrangePoint,
+  lagrangePoints,
+  ManeuverNode,
+  orbitalElements,
+  OrbitPlacement,
+  planBiEllipticTransfer,
+  planHohmannTransfer,
+  planIntercept,
+  PorkchopPlot,
+  porkchopPlot,
+  PredictionsMessage,
+  QuadtreeCell,
+  radialFrame,
+  RandomGenerator,
+  recordFrame,
+  removeNetMomentum,
+  SnapshotMessage,
+  stateFromElements,
+  StepOptions,
+  Timeline,
+  timelineRange,
+  TransferPlan,
+  transferManeuvers,
+  TransferType,
+  Vector2
+} from '../physics';
+import { SceneFile } from '../store/sceneFile';
 import { useSimulationStore } from '../store/simulationStore';
-import { calculateOrbitPath } from './calculateOrbitPath';
-import ForceVisualization, { ForceVector, VelocityVector } from './ForceVisualization';
+import {
+  BaseItem,
+  CANVAS_CENTER_X,
+  CANVAS_CENTER_Y,
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  ItemTypeConfig
+} from '../types/canvas';
+import { applySnapshot, createSimulationState, itemToBody } from './bodyAdapter';
+import ForceVisualization, { EnvironmentVector, ForceVector, VelocityVector } from './ForceVisualization';
+import ForkPanel from './ForkPanel';
 import { PlanetItemType } from './ItemTypes/PlanetItemType';
+import { SpacecraftItemType } from './ItemTypes/SpacecraftItemType';
+import InterceptPlannerPanel from './InterceptPlannerPanel';
 import CanvasBackground from './layers/CanvasBackground';
 import ForceLineLayer from './layers/ForceLineLayer';
+import ForkGhostLayer from './layers/ForkGhostLayer';
+import LagrangeLayer from './layers/LagrangeLayer';
+import ManeuverLayer, { ManeuverMarker } from './layers/ManeuverLayer';
 import PlanetLayer from './layers/PlanetLayer';
+import QuadtreeLayer from './layers/QuadtreeLayer';
+import TransferLayer from './layers/TransferLayer';
 import OrbitLogger from './OrbitLogger';
-import OrbitPathVisualization, { OrbitPath } from './OrbitPathVisualization';
-
-// Base item interface that all item types will extend
-export interface BaseItem {
-  id: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  type: string;
-  data: any;
-}
-
-// Definition for any item type configuration
-export interface ItemTypeConfig {
-  defaultWidth: number;
-  defaultHeight: number;
-  defaultData: any;
-  render: (item: BaseItem) => React.ReactNode;
-}
-
-// Interface for orbit path points
-interface OrbitPoint {
-  x: number;
-  y: number;
-}
+import OrbitalElementsDialog from './OrbitalElementsDialog';
+import OrbitPathVisualization, { OrbitPath, OrbitPoint } from './OrbitPathVisualization';
+import TransferPlannerPanel from './TransferPlannerPanel';
+import { useScenePersistence } from './useScenePersistence';
+import { useSimulationWorker } from './useSimulationWorker';
 
 interface CanvasProps {
   onDrag: (deltaX: number, deltaY: number) => void;
   onZoom: (newTransform: { x: number; y: number; scale: number }) => void;
   transform: { x: number; y: number; scale: number };
   isDragging: boolean;
-  mode: 'pan' | 'add';
+  mode: 'pan' | 'add' | 'target';
   itemTypes?: Record<string, ItemTypeConfig>;
   selectedItemType?: string;
   onInitialize?: () => void;
 }
 
-// Constants for canvas size
-export const CANVAS_WIDTH = 100000;
-export const CANVAS_HEIGHT = 100000;
-export const CANVAS_CENTER_X = CANVAS_WIDTH / 2;
-export const CANVAS_CENTER_Y = CANVAS_HEIGHT / 2;
+// Intercepts departing within this much simulated time are flown by setting
+// the velocity directly instead of scheduling a burn
+const INTERCEPT_IMMEDIATE_WINDOW = 0.1;
 
-// Helper function to calculate the initial transform for centering the canvas
-export const calculateCenteredTransform = (scale: number = 1): { x: number; y: number; scale: number } => {
-  const viewportWidth = window.innerWidth;
-  const viewportHeight = window.innerHeight;
-  
-  // Position the canvas center in the middle of the viewport
-  return {
-    x: viewportWidth / 2 - CANVAS_CENTER_X * scale,
-    y: viewportHeight / 2 - CANVAS_CENTER_Y * scale,
-    scale
-  };
-};
+// Test bodies placed at Lagrange points, light enough not to disturb the pair
+const TEST_BODY_RADIUS = 6;
+const TEST_BODY_MASS = 0.001;
+
+// Frames kept for rewinding; older ones are overwritten
+const MAX_TIMELINE_FRAMES = 600;
 
 export const Canvas: React.FC<CanvasProps> = ({ 
   onDrag, 
@@ -75,15 +104,26 @@ export const Canvas: React.FC<CanvasProps> = ({
   onInitialize
 }) => {
   const [items, setItems] = useState<BaseItem[]>([]);
+  const itemsRef = useRef<BaseItem[]>([]); // Latest items, readable from worker callbacks
+  // Bumped on every user edit so the worker reloads the scene
+  const [sceneVersion, setSceneVersion] = useState(0);
+  const sceneVersionRef = useRef(0);
+  // Recorded scenes for rewinding, filled from the worker's snapshots
+  const timelineRef = useRef<Timeline<BaseItem[]>>(createTimeline(MAX_TIMELINE_FRAMES));
+  // What-if copy of the scene, stepped by the worker alongside the original
+  const [forkItems, setForkItems] = useState<BaseItem[] | null>(null);
+  const forkItemsRef = useRef<BaseItem[] | null>(null);
+  const [divergence, setDivergence] = useState<Divergence | null>(null);
   const [forceLines, setForceLines] = useState<{from: BaseItem, to: BaseItem, strength: number}[]>([]);
   const [orbitPaths, setOrbitPaths] = useState<OrbitPath[]>([]);
+  const [quadtreeCells, setQuadtreeCells] = useState<QuadtreeCell[]>([]);
+  const [maneuverMarkers, setManeuverMarkers] = useState<ManeuverMarker[]>([]);
   const lastMousePos = useRef<{ x: number; y: number } | null>(null);
   const isInitialized = useRef(false);
   const animationFrameId = useRef<number | null>(null);
-  const lastUpdateTime = useRef<number>(Date.now());
   const [isLocalDragging, setIsLocalDragging] = useState(false);
   const frameCount = useRef<number>(0);
-  const lastFpsUpdate = useRef<number>(Date.now());
+  const lastFpsUpdate = useRef<number>(performance.now());
   
   // Get global simulation state from store
   const {
@@ -99,19 +139,80 @@ export const Canvas: React.FC<CanvasProps> = ({
     toggleShowOrbits,
     setFps,
     G,
+    softening,
+    forceLaws,
+    forceLawParameters,
+    environment,
+    integrator,
+    fixedTimeStep,
+    maxSubsteps,
+    adaptiveTimeStep,
+    minTimeStep,
+    maxTimeStep,
+    setSubsteps,
+    simulationTime,
+    setSimulationTime,
+    seed,
+    forceSolver,
+    theta,
+    showQuadtree,
+    collisionMode,
+    restitution,
+    logEvents,
+    closeApproachDistance,
+    recordDiagnostics,
+    showDiagnostics,
+    barycentric,
+    showOrbitDialog,
+    setShowOrbitDialog,
+    showLagrangePoints,
+    setTimelineRange,
+    seekTime,
+    setSeekTime,
+    focusRequest,
+    setFocusRequest,
+    momentumResetRequest,
+    setMomentumResetRequest,
+    forkEnabled,
+    setForkEnabled,
+    clearEventLog,
+    applySceneSettings,
   } = useSimulationStore();
 
-  // Reference to track if simulation is running
-  const isSimulationRunning = useRef(isPlaying);
+  // Physics options shared by the live simulation, force lines and orbit predictions
+  const physicsOptions = useMemo<StepOptions>(() => ({
+    G,
+    softening,
+    forceLaws,
+    forceLawParameters,
+    environment,
+    planetaryForces,
+    barycentric,
+    integrator,
+    forceSolver,
+    theta,
+    collisionMode,
+    restitution
+  }), [G, softening, forceLaws, forceLawParameters, environment, planetaryForces, barycentric, integrator, forceSolver, theta, collisionMode, restitution]);
 
-  // Update reference when isPlaying changes
+  // Seeded generator for random velocities, recreated whenever the seed changes
+  const random = useRef<RandomGenerator>(createRandom(seed));
   useEffect(() => {
-    isSimulationRunning.current = isPlaying;
-  }, [isPlaying]);
+    random.current = createRandom(seed);
+  }, [seed]);
+
+  // Replace the whole scene after a user edit; the worker picks it up from here
+  const commitScene = useCallback((nextItems: BaseItem[]) => {
+    itemsRef.current = nextItems;
+    sceneVersionRef.current += 1;
+    setItems(nextItems);
+    setSceneVersion(sceneVersionRef.current);
+  }, []);
 
   // Merge custom item types with default ones
   const mergedItemTypes: Record<string, ItemTypeConfig> = {
     planet: PlanetItemType,
+    spacecraft: SpacecraftItemType,
     ...itemTypes
   };
 
@@ -161,286 +262,284 @@ export const Canvas: React.FC<CanvasProps> = ({
     };
   }, []);
 
-  // Calculate force lines for visualization
-  const calculateForceLines = useCallback((planetItems: BaseItem[]) => {
-    if (!showForces) {
-      setForceLines([]);
-      return;
-    }
+  // Replace the single force vector state with a more detailed structure
+  const [detailedForceVectors, setDetailedForceVectors] = useState<ForceVector[]>([]);
+  const [velocityVectors, setVelocityVectors] = useState<VelocityVector[]>([]);
+  const [environmentVectors, setEnvironmentVectors] = useState<EnvironmentVector[]>([]);
 
+  // Build force lines for visualization, one per interacting pair
+  const buildForceLines = (planetItems: BaseItem[], contributions: ForceContribution[]) => {
     const newForceLines: {from: BaseItem, to: BaseItem, strength: number}[] = [];
+    const itemsById = new Map(planetItems.map(item => [item.id, item]));
+    const seenPairs = new Set<string>();
     
-    // Only calculate forces for planets
-    const planetOnlyItems = planetItems.filter(item => item.type === 'planet');
-    
-    // For each pair of planets, calculate the force
-    for (let i = 0; i < planetOnlyItems.length; i++) {
-      for (let j = i + 1; j < planetOnlyItems.length; j++) {
-        const planet1 = planetOnlyItems[i];
-        const planet2 = planetOnlyItems[j];
-        
-        // Calculate distance between planets
-        const dx = planet2.x - planet1.x;
-        const dy = planet2.y - planet1.y;
-        const distanceSquared = dx * dx + dy * dy;
-        
-        // Avoid division by zero and limit extreme forces at very close distances
-        if (distanceSquared < 100) continue;
-        
-        // Calculate gravitational force
-        const distance = Math.sqrt(distanceSquared);
-        const force = G * planet1.data.mass * planet2.data.mass / distanceSquared;
-        
-        // Normalize force for visualization (logarithmic scale looks better for vastly different forces)
-        const normalizedForce = Math.log(force + 1) / 10;
-        
-        newForceLines.push({
-          from: planet1,
-          to: planet2,
-          strength: normalizedForce
-        });
-      }
-    }
+    contributions.forEach(contribution => {
+      // Each pair only gets one line
+      const pairKey = [contribution.targetId, contribution.sourceId].sort().join('|');
+      if (seenPairs.has(pairKey)) return;
+      seenPairs.add(pairKey);
+      
+      const from = itemsById.get(contribution.sourceId);
+      const to = itemsById.get(contribution.targetId);
+      if (!from || !to) return;
+      
+      const force = Math.sqrt(contribution.forceX * contribution.forceX + contribution.forceY * contribution.forceY);
+      
+      // Normalize force for visualization (logarithmic scale looks better for vastly different forces)
+      const normalizedForce = Math.log(force + 1) / 10;
+      
+      newForceLines.push({
+        from,
+        to,
+        strength: normalizedForce
+      });
+    });
     
-    setForceLines(newForceLines);
-  }, [G, showForces]);
-  
-  // Calculate orbit paths for all planets
-  const calculateAllOrbitPaths = useCallback(() => {
-    if (!showOrbits) {
-      setOrbitPaths([]);
-      return;
+    return newForceLines;
+  };
+
+  // Render each snapshot the physics worker sends back
+  const handleSnapshot = useCallback((snapshot: SnapshotMessage) => {
+    // Ignore snapshots of a scene that has since been edited
+    if (snapshot.version !== sceneVersionRef.current) return;
+
+    // Log events with body names while absorbed bodies are still around to look up
+    if (snapshot.events.length > 0) {
+      const namesById = new Map(itemsRef.current.map(item => [item.id, item.data.name as string]));
+      logEvents(snapshot.events.map(event => ({
+        event,
+        bodyNames: event.bodyIds.map(id => namesById.get(id) ?? id)
+      })));
     }
-    
-    const planetItems = items.filter(item => item.type === 'planet');
-    const newOrbitPaths: OrbitPath[] = [];
-    
-    // Skip calculation if we only have one planet (no orbit)
-    if (planetItems.length <= 1) {
-      setOrbitPaths([]);
-      return;
+
+    const updatedItems = applySnapshot(itemsRef.current, snapshot);
+    itemsRef.current = updatedItems;
+    setItems(updatedItems);
+    setSimulationTime(snapshot.time);
+    if (snapshot.diagnostics) recordDiagnostics(snapshot.diagnostics);
+    setSubsteps(snapshot.substeps);
+
+    // Move the fork's ghosts along with the original
+    if (snapshot.fork && forkItemsRef.current) {
+      const updatedFork = applySnapshot(forkItemsRef.current, snapshot.fork);
+      forkItemsRef.current = updatedFork;
+      setForkItems(updatedFork);
+      setDivergence(snapshot.fork.divergence);
     }
-    
-    // Calculate orbit paths for each planet
-    planetItems.forEach(planet => {
-      // Use the new utility function with planetaryForces parameter
-      const orbitPoints = calculateOrbitPath(planet, planetItems, G, planetaryForces);
-      if (orbitPoints.length > 0) {
-        newOrbitPaths.push({
-          planetId: planet.id,
-          points: orbitPoints,
-          color: planet.data.color || 'white'
-        });
-      }
-    });
-    
-    setOrbitPaths(newOrbitPaths);
-  }, [items, G, showOrbits, planetaryForces]);
-  
-  // Update orbit paths whenever planets move or planetaryForces changes
-  useEffect(() => {
-    calculateAllOrbitPaths();
-  }, [calculateAllOrbitPaths, items.length, planetaryForces]);
-  
-  // Replace the single force vector state with a more detailed structure
-  const [detailedForceVectors, setDetailedForceVectors] = useState<ForceVector[]>([]);
-  const [velocityVectors, setVelocityVectors] = useState<VelocityVector[]>([]);
 
-  // Update the updatePlanetPositions function to respect the planetaryForces setting
-  const updatePlanetPositions = useCallback(() => {
-    const currentTime = Date.now();
-    const deltaTime = (currentTime - lastUpdateTime.current) / 1000; // Convert to seconds
-    lastUpdateTime.current = currentTime;
-
-    // Apply time scale to deltaTime
-    const scaledDeltaTime = deltaTime * timeScale;
-
-    // Update FPS counter
-    frameCount.current += 1;
-    if (currentTime - lastFpsUpdate.current > 1000) { // Update every second
-      setFps(Math.round((frameCount.current * 1000) / (currentTime - lastFpsUpdate.current)));
-      frameCount.current = 0;
-      lastFpsUpdate.current = currentTime;
+    // Only a running simulation adds to the timeline. Recording drops any
+    // frames after this one, so resuming from a rewound point forgets the old future.
+    const { isPlaying, historyInterval } = useSimulationStore.getState();
+    if (isPlaying && recordFrame(timelineRef.current, snapshot.time, updatedItems, historyInterval)) {
+      setTimelineRange(timelineRange(timelineRef.current));
     }
 
-    // Clear all vectors at each update to prevent accumulation
-    setDetailedForceVectors([]);
-    setVelocityVectors([]);
+    if (!showForces) {
+      setForceLines([]);
+      setDetailedForceVectors([]);
+      setVelocityVectors([]);
+      setEnvironmentVectors([]);
+    } else {
+      setForceLines(buildForceLines(updatedItems, snapshot.lineForces ?? []));
 
-    // Only update if we have more than one item or simulation is running
-    if (items.length <= 1 || !isSimulationRunning.current) {
-      animationFrameId.current = requestAnimationFrame(updatePlanetPositions);
-      return;
+      // Store all individual force vectors between planets
+      setDetailedForceVectors((snapshot.forces ?? []).map(contribution => ({
+        targetPlanetId: contribution.targetId,
+        sourcePlanetId: contribution.sourceId,
+        forceX: contribution.forceX,
+        forceY: contribution.forceY
+      })));
+
+      // Store drag, field and halo forces separately from the per-source ones
+      setEnvironmentVectors((snapshot.environmentForces ?? []).map(force => ({
+        planetId: force.bodyId,
+        type: force.type,
+        forceX: force.forceX,
+        forceY: force.forceY
+      })));
+
+      // Store velocity vectors, split relative to each body's own primary
+      const state = createSimulationState(updatedItems);
+      const bodiesById = new Map(state.bodies.map(body => [body.id, body]));
+      setVelocityVectors(state.bodies.map(body => {
+        // Bodies without a primary don't have radial or perpendicular components
+        const primary = body.primaryId ? bodiesById.get(body.primaryId) : undefined;
+        const components = primary
+          ? decomposeVelocity(body, primary)
+          : { radial: { x: 0, y: 0 }, perpendicular: { x: 0, y: 0 } };
+
+        return {
+          planetId: body.id,
+          velocityX: body.velocity.x,
+          velocityY: body.velocity.y,
+          perpVelocityX: components.perpendicular.x,
+          perpVelocityY: components.perpendicular.y,
+          radialVelocityX: components.radial.x,
+          radialVelocityY: components.radial.y
+        };
+      }));
     }
 
-    // Store all individual force vectors between planets
-    const newDetailedForceVectors: ForceVector[] = [];
+    // Outline the quadtree cells for tuning the opening angle
+    setQuadtreeCells(snapshot.quadtree ?? []);
+  }, [showForces, setSimulationTime, logEvents, recordDiagnostics, setSubsteps, setTimelineRange]);
 
-    // Store velocity vectors for visualization
-    const newVelocityVectors: VelocityVector[] = [];
+  // Show the orbit predictions computed by the worker
+  const handlePredictions = useCallback((predictions: PredictionsMessage) => {
+    if (predictions.version !== sceneVersionRef.current) return;
 
-    setItems(prevItems => {
-      const updatedItems = prevItems.map(item => {
-        // Only apply physics to planets
-        if (item.type !== 'planet') return item;
+    const itemsById = new Map(itemsRef.current.map(item => [item.id, item]));
+    const bodies = createSimulationState(itemsRef.current).bodies;
+    const { G } = useSimulationStore.getState();
 
-        const planet = { ...item };
-        if (!planet.data.velocity) {
-          planet.data.velocity = { x: 0, y: 0 };
-        }
+    setOrbitPaths(predictions.paths.map(path => {
+      const points: OrbitPoint[] = [];
+      for (let i = 0; i < path.points.length; i += 2) {
+        points.push({ x: path.points[i], y: path.points[i + 1] });
+      }
 
-        // Skip the central body (assumed to be first planet)
-        if (planet.id === prevItems[0]?.id) {
-          // Still calculate velocity components for visualizing
-          if (prevItems.length > 1) {
-            // Calculate center points
-            const centralPlanet = prevItems[0];
-            
-            const centralX = centralPlanet.x + centralPlanet.width / 2;
-            const centralY = centralPlanet.y + centralPlanet.height / 2;
-            const planetX = planet.x + planet.width / 2;
-            const planetY = planet.y + planet.height / 2;
-            
-            // Calculate velocity components
-            newVelocityVectors.push({
-              planetId: planet.id,
-              velocityX: planet.data.velocity.x,
-              velocityY: planet.data.velocity.y,
-              perpVelocityX: 0, // Central body doesn't have perpendicular component
-              perpVelocityY: 0,
-              radialVelocityX: 0, // Central body doesn't have radial component
-              radialVelocityY: 0
-            });
-          }
-          return planet;
-        }
+      // Apsides of the current osculating orbit around the body's primary
+      const body = bodies.find(candidate => candidate.id === path.bodyId);
+      const primary = body && findPrimary(bodies, body);
+      const elements = body && primary ? orbitalElements(body, primary, G) : null;
 
-        // Calculate velocity components for non-central planets
-        if (prevItems.length > 1) {
-          // Assume the first planet is the central body
-          const centralPlanet = prevItems[0];
-          
-          // Calculate center points
-          const centralX = centralPlanet.x + centralPlanet.width / 2;
-          const centralY = centralPlanet.y + centralPlanet.height / 2;
-          const planetX = planet.x + planet.width / 2;
-          const planetY = planet.y + planet.height / 2;
-          
-          // Calculate vector from planet to central body (radial direction)
-          const dx = centralX - planetX;
-          const dy = centralY - planetY;
-          const distance = Math.sqrt(dx * dx + dy * dy);
-          
-          // Normalize the radial vector
-          const normalizedDx = dx / distance;
-          const normalizedDy = dy / distance;
-          
-          // Calculate perpendicular vector (tangential direction)
-          const perpDx = -normalizedDy;
-          const perpDy = normalizedDx;
-          
-          // Decompose velocity into radial and perpendicular components
-          // Project velocity onto radial direction (dot product)
-          const radialVelocity = planet.data.velocity.x * normalizedDx + planet.data.velocity.y * normalizedDy;
-          const radialVelocityX = radialVelocity * normalizedDx;
-          const radialVelocityY = radialVelocity * normalizedDy;
-          
-          // Project velocity onto perpendicular direction (dot product)
-          const perpVelocity = planet.data.velocity.x * perpDx + planet.data.velocity.y * perpDy;
-          const perpVelocityX = perpVelocity * perpDx;
-          const perpVelocityY = perpVelocity * perpDy;
-          
-          // Store velocity components for visualization
-          newVelocityVectors.push({
-            planetId: planet.id,
-            velocityX: planet.data.velocity.x,
-            velocityY: planet.data.velocity.y,
-            perpVelocityX,
-            perpVelocityY,
-            radialVelocityX,
-            radialVelocityY
-          });
-        }
+      return {
+        planetId: path.bodyId,
+        points,
+        color: itemsById.get(path.bodyId)?.data.color || 'white',
+        apsides: elements && primary ? apsides(elements, primary) : null
+      };
+    }));
 
-        // Calculate gravitational forces from all other planets
-        let totalForceX = 0;
-        let totalForceY = 0;
+    // Place each upcoming burn where the predicted path reaches it
+    setManeuverMarkers(predictions.paths.flatMap(path => path.burns.map(burn => ({
+      spacecraftId: path.bodyId,
+      nodeId: burn.nodeId,
+      position: burn.position,
+      frame: burn.frame
+    }))));
+  }, []);
 
-        prevItems.forEach(otherItem => {
-          if (otherItem.id === planet.id || otherItem.type !== 'planet') return;
+  const postToWorker = useSimulationWorker(useMemo(() => ({
+    onSnapshot: handleSnapshot,
+    onPredictions: handlePredictions
+  }), [handleSnapshot, handlePredictions]));
 
-          // Get the central planet
-          const centralPlanet = prevItems[0]; 
-          const isCentralPlanet = otherItem.id === centralPlanet.id;
-          
-          // Skip force calculation from other planets if planetary forces are disabled
-          // Only calculate forces from the central body in that case
-          if (!planetaryForces && !isCentralPlanet) return;
-
-          // Calculate distance between planets
-          const dx = otherItem.x - planet.x;
-          const dy = otherItem.y - planet.y;
-          const distanceSquared = dx * dx + dy * dy;
-          
-          // Avoid division by zero and limit extreme forces at very close distances
-          if (distanceSquared < 100) return;
-          
-          // Calculate gravitational force
-          const force = G * planet.data.mass * otherItem.data.mass / distanceSquared;
-          
-          // Calculate force components
-          const distance = Math.sqrt(distanceSquared);
-          const forceX = force * dx / distance;
-          const forceY = force * dy / distance;
-          
-          // Store each individual force vector for visualization
-          newDetailedForceVectors.push({
-            targetPlanetId: planet.id,
-            sourcePlanetId: otherItem.id,
-            forceX: forceX,
-            forceY: forceY
-          });
-          
-          totalForceX += forceX;
-          totalForceY += forceY;
-        });
+  // Send the edited scene to the worker whenever the user changes it. A fork
+  // is sent along and restarts from the same moment, keeping both in lockstep.
+  useEffect(() => {
+    const time = useSimulationStore.getState().simulationTime;
+    postToWorker({
+      type: 'load',
+      state: createSimulationState(itemsRef.current, time),
+      fork: forkItemsRef.current ? createSimulationState(forkItemsRef.current, time) : null,
+      version: sceneVersion
+    });
+  }, [postToWorker, sceneVersion]);
 
-        // Calculate acceleration (F = ma, so a = F/m)
-        const accelerationX = totalForceX / planet.data.mass;
-        const accelerationY = totalForceY / planet.data.mass;
+  // Start, edit or end the fork. The original is reloaded too, so both runs
+  // continue from the same state of the clock.
+  const commitFork = useCallback((nextForkItems: BaseItem[] | null) => {
+    forkItemsRef.current = nextForkItems;
+    setForkItems(nextForkItems);
+    if (!nextForkItems) setDivergence(null);
+    commitScene(itemsRef.current);
+  }, [commitScene]);
 
-        // Update velocity
-        planet.data.velocity.x += accelerationX * scaledDeltaTime;
-        planet.data.velocity.y += accelerationY * scaledDeltaTime;
+  // The command palette forks the current scene or ends the fork
+  useEffect(() => {
+    if (forkEnabled === (forkItemsRef.current !== null)) return;
+    commitFork(forkEnabled ? itemsRef.current : null);
+  }, [forkEnabled, commitFork]);
 
-        // Update position
-        planet.x += planet.data.velocity.x * scaledDeltaTime;
-        planet.y += planet.data.velocity.y * scaledDeltaTime;
+  // Change a body in the fork only
+  const updateForkBody = (bodyId: string, changes: { mass?: number; velocity?: Vector2 }) => {
+    if (!forkItemsRef.current) return;
+    commitFork(forkItemsRef.current.map(item =>
+      item.id === bodyId ? { ...item, data: { ...item.data, ...changes } } : item
+    ));
+  };
 
-        return planet;
-      });
+  // Restore the recorded scene the timeline scrubber points at. The frames
+  // after it are kept until the simulation is resumed.
+  useEffect(() => {
+    if (seekTime === null) return;
+    setSeekTime(null);
 
-      // Calculate new force lines for visualization
-      calculateForceLines(updatedItems);
+    const frame = frameAt(timelineRef.current, seekTime);
+    if (!frame) return;
 
-      // After all calculations are done, update detailed force and velocity vectors
-      setTimeout(() => {
-        setDetailedForceVectors(newDetailedForceVectors);
-        setVelocityVectors(newVelocityVectors);
-      }, 0);
+    // The fork only exists from now on, so it can't follow the rewind
+    forkItemsRef.current = null;
+    setForkItems(null);
+    setDivergence(null);
+    setForkEnabled(false);
 
-      return updatedItems;
+    setSimulationTime(frame.time);
+    commitScene(frame.scene);
+  }, [seekTime, setSeekTime, setSimulationTime, setForkEnabled, commitScene]);
+
+  // Put the bodies an event log entry names in the middle of the viewport,
+  // keeping the zoom. They have usually moved on since the event.
+  useEffect(() => {
+    if (!focusRequest) return;
+    setFocusRequest(null);
+
+    const involved = itemsRef.current.filter(item => focusRequest.bodyIds.includes(item.id));
+    const point = involved.length > 0 ? {
+      x: involved.reduce((sum, item) => sum + item.x + item.width / 2, 0) / involved.length,
+      y: involved.reduce((sum, item) => sum + item.y + item.height / 2, 0) / involved.length
+    } : focusRequest.fallback;
+
+    onZoom({
+      ...transform,
+      x: window.innerWidth / 2 - point.x * transform.scale,
+      y: window.innerHeight / 2 - point.y * transform.scale
     });
-    
-    // Continue animation loop
-    animationFrameId.current = requestAnimationFrame(updatePlanetPositions);
-  }, [items.length, G, calculateForceLines, setFps, planetaryForces, timeScale]);
+  }, [focusRequest, setFocusRequest, onZoom, transform]);
+
+  // Keep the worker's settings in sync with the store
+  useEffect(() => {
+    postToWorker({
+      type: 'configure',
+      settings: {
+        options: physicsOptions,
+        timeScale,
+        fixedTimeStep,
+        maxSubsteps,
+        adaptive: adaptiveTimeStep,
+        minTimeStep,
+        maxTimeStep,
+        collectForces: showForces,
+        collectQuadtree: showQuadtree,
+        collectDiagnostics: showDiagnostics,
+        predictOrbits: showOrbits,
+        closeApproachDistance,
+        bounds: { width: CANVAS_WIDTH, height: CANVAS_HEIGHT }
+      }
+    });
+    if (!showOrbits) {
+      setOrbitPaths([]);
+    }
+  }, [postToWorker, physicsOptions, timeScale, fixedTimeStep, maxSubsteps, adaptiveTimeStep, minTimeStep, maxTimeStep, showForces, showQuadtree, showDiagnostics, showOrbits, closeApproachDistance]);
 
-  // Start physics simulation
   useEffect(() => {
-    // Initialize the animation loop
-    lastUpdateTime.current = Date.now();
-    animationFrameId.current = requestAnimationFrame(updatePlanetPositions);
+    postToWorker({ type: 'setRunning', running: isPlaying });
+  }, [postToWorker, isPlaying]);
+
+  // Count rendered frames for the FPS monitor
+  useEffect(() => {
+    const countFrame = () => {
+      const currentTime = performance.now();
+      frameCount.current += 1;
+      if (currentTime - lastFpsUpdate.current > 1000) { // Update every second
+        setFps(Math.round((frameCount.current * 1000) / (currentTime - lastFpsUpdate.current)));
+        frameCount.current = 0;
+        lastFpsUpdate.current = currentTime;
+      }
+      animationFrameId.current = requestAnimationFrame(countFrame);
+    };
+    animationFrameId.current = requestAnimationFrame(countFrame);
 
     // Cleanup when component unmounts
     return () => {
@@ -448,34 +547,15 @@ export const Canvas: React.FC<CanvasProps> = ({
         cancelAnimationFrame(animationFrameId.current);
       }
     };
-  }, [updatePlanetPositions]);
-
-  // Add a demo planet (Earth) when component loads if there are no items
-  useEffect(() => {
-    if (items.length === 0) {
-      const centralBody: BaseItem = {
-        id: 'planet-' + Date.now().toString(),
-        x: CANVAS_CENTER_X - 75, // Subtract half the width to truly center
-        y: CANVAS_CENTER_Y - 75, // Subtract half the height to truly center
-        width: 150,
-        height: 150,
-        type: 'planet',
-        data: {
-          name: 'Sun',
-          color: '#FFA500', // Orange color for the Sun
-          radius: 75,
-          mass: 1000000, // Much higher mass for the central body
-          velocity: { x: 0, y: 0 }, // Central body stays stationary
-          isOrbital: true
-        }
-      };
-      setItems([centralBody]);
-    }
-  }, [items.length]);
+  }, [setFps]);
 
   const handleClick = (e: React.MouseEvent) => {
+    // Shift-clicking while a body is selected places a moon around it, so keep
+    // the selection (and popover) open for adding several moons in a row
+    const parentId = e.shiftKey ? selectedPlanetId : null;
+
     // Close any open popover when clicking on the canvas
-    handleCanvasClick();
+    if (!parentId) handleCanvasClick();
 
     // Original add item logic
     if (mode === 'add' && selectedItemType && mergedItemTypes[selectedItemType]) {
@@ -504,52 +584,55 @@ export const Canvas: React.FC<CanvasProps> = ({
         }
       };
 
-      // Only calculate orbital velocity if we have at least one planet and this planet is set to orbital mode
-      if (newItem.data.isOrbital && items.length > 0) {
-        // Assume the first planet is the central body (like the Sun)
-        const centralPlanet = items[0];
-        
-        // Calculate center points of both planets
-        const centralX = centralPlanet.x + centralPlanet.width / 2;
-        const centralY = centralPlanet.y + centralPlanet.height / 2;
-        const newPlanetX = newItem.x + newItem.width / 2;
-        const newPlanetY = newItem.y + newItem.height / 2;
-        
-        // Calculate vector from new planet to central planet
-        const dx = centralX - newPlanetX;
-        const dy = centralY - newPlanetY;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        
-        // Normalize the vector
-        const normalizedDx = dx / distance;
-        const normalizedDy = dy / distance;
-        
-        // Calculate perpendicular vector (tangential direction)
-        // This is the key step: creating a vector that is exactly perpendicular 
-        // to the radius vector by swapping components and negating one
-        const perpDx = -normalizedDy;
-        const perpDy = normalizedDx;
-        
-        // Calculate orbital velocity magnitude using v = sqrt(G*M/r)
-        const velocityMagnitude = Math.sqrt(G * centralPlanet.data.mass / distance);
-        
-        // Apply the velocity in the perpendicular (tangential) direction
-        newItem.data.velocity = {
-          x: perpDx * velocityMagnitude,
-          y: perpDy * velocityMagnitude
-        };
+      // New bodies orbit the selected body when adding a moon, otherwise the
+      // most massive body in the scene
+      const bodies = createSimulationState(itemsRef.current).bodies;
+      const primary = bodies.find(body => body.id === parentId) ?? findDominantBody(bodies);
+      newItem.data.primaryId = primary?.id;
+
+      // Only calculate orbital velocity if there is a primary and this planet is set to orbital mode
+      if (newItem.data.isOrbital && primary) {
+        // Apply the circular orbit velocity in the tangential direction
+        newItem.data.velocity = circularOrbitVelocity(itemToBody(newItem), primary, G, softening);
       } else if (!newItem.data.isOrbital) {
         // If not in orbital mode, give random velocity as before
         newItem.data.velocity = { 
-          x: (Math.random() - 0.5) * 20, 
-          y: (Math.random() - 0.5) * 20 
+          x: (random.current() - 0.5) * 20, 
+          y: (random.current() - 0.5) * 20 
         };
       }
       
-      setItems([...items, newItem]);
+      commitScene([...itemsRef.current, newItem]);
     }
   };
 
+  // Place a new body exactly on the orbit given by the elements dialog
+  const createFromElements = (primaryId: string, placement: OrbitPlacement, type: string, name: string) => {
+    const primary = createSimulationState(itemsRef.current).bodies.find(body => body.id === primaryId);
+    const itemType = mergedItemTypes[type];
+    const state = primary && stateFromElements(placement, primary, G);
+    if (!primary || !itemType || !state) return;
+
+    const newItem: BaseItem = {
+      id: Date.now().toString(),
+      x: state.position.x - itemType.defaultWidth / 2,
+      y: state.position.y - itemType.defaultHeight / 2,
+      width: itemType.defaultWidth,
+      height: itemType.defaultHeight,
+      type,
+      data: {
+        ...itemType.defaultData,
+        ...(name ? { name } : {}),
+        velocity: state.velocity,
+        isOrbital: true,
+        primaryId
+      }
+    };
+
+    commitScene([...itemsRef.current, newItem]);
+    setShowOrbitDialog(false);
+  };
+
   // Toggle force visualization - now uses the Zustand store
   const handleToggleForces = useCallback(() => {
     toggleShowForces();
@@ -593,11 +676,121 @@ export const Canvas: React.FC<CanvasProps> = ({
     return `rgba(${r}, ${g}, ${b}, ${a})`;
   };
 
+  // Transfer being planned from a spacecraft to a target body
+  const [transferPlanner, setTransferPlanner] = useState<{
+    travellerId: string;
+    targetId: string | null; // Null until the target is clicked
+    type: TransferType; // Option shown on the canvas and scheduled
+    intermediateRatio: number; // Bi-elliptic apoapsis as a multiple of the larger orbit
+  } | null>(null);
+
+  // Lambert targeting between two bodies, set up by clicking them in target mode
+  const [intercept, setIntercept] = useState<{
+    departureId: string;
+    arrivalId: string | null; // Null until the second body is clicked
+    porkchop: PorkchopPlot | null; // Null if the bodies don't share a primary
+    departureTime: number; // Selected launch window
+    timeOfFlight: number;
+  } | null>(null);
+
+  // Replace the whole scene, settings and camera with a saved scene. Anything
+  // tied to the previous scene (fork, timeline, planners, log) is dropped.
+  const loadScene = useCallback((scene: SceneFile) => {
+    forkItemsRef.current = null;
+    setForkItems(null);
+    setDivergence(null);
+    setForkEnabled(false);
+    clearTimeline(timelineRef.current);
+    clearEventLog();
+    setSelectedPlanetId(null);
+    setTransferPlanner(null);
+    setIntercept(null);
+
+    applySceneSettings(scene.settings);
+    onZoom(scene.transform);
+    commitScene(scene.items);
+  }, [setForkEnabled, clearEventLog, applySceneSettings, onZoom, commitScene]);
+
+  const { linkPending } = useScenePersistence({
+    itemsRef,
+    transform,
+    knownTypes: Object.keys(mergedItemTypes),
+    onLoad: loadScene
+  });
+
+  // Add a demo planet (Earth) when component loads if there are no items,
+  // unless a shared link is still being opened. The ref is checked rather
+  // than `items`, since a restored autosave commits its scene in the same
+  // pass as this effect and must not be overwritten.
+  useEffect(() => {
+    if (itemsRef.current.length === 0 && !linkPending) {
+      const centralBody: BaseItem = {
+        id: 'planet-' + Date.now().toString(),
+        x: CANVAS_CENTER_X - 75, // Subtract half the width to truly center
+        y: CANVAS_CENTER_Y - 75, // Subtract half the height to truly center
+        width: 150,
+        height: 150,
+        type: 'planet',
+        data: {
+          name: 'Sun',
+          color: '#FFA500', // Orange color for the Sun
+          radius: 75,
+          mass: 1000000, // Much higher mass for the central body
+          velocity: { x: 0, y: 0 }, // Central body stays stationary
+          isOrbital: true,
+          isFixed: true // Pinned in place unless the simulation is barycentric
+        }
+      };
+      commitScene([centralBody]);
+    }
+  }, [items.length, linkPending, commitScene]);
+
+  // Porkchop plot between two bodies from the current positions, with the
+  // cheapest cell preselected
+  const planInterceptWindow = useCallback((departureId: string, arrivalId: string) => {
+    const time = useSimulationStore.getState().simulationTime;
+    const bodies = createSimulationState(itemsRef.current).bodies;
+    const departure = bodies.find(body => body.id === departureId);
+    const arrival = bodies.find(body => body.id === arrivalId);
+    const primary = departure && findPrimary(bodies, departure);
+
+    if (!departure || !arrival || !primary || primary.id === arrival.id) {
+      return { departureId, arrivalId, porkchop: null, departureTime: time, timeOfFlight: 0 };
+    }
+
+    const porkchop = porkchopPlot(departure, arrival, primary, G, time, 16);
+    let best = { departureTime: time, timeOfFlight: porkchop.flightTimes[0], deltaV: Infinity };
+    porkchop.deltaV.forEach((column, columnIndex) => column.forEach((deltaV, rowIndex) => {
+      if (deltaV !== null && deltaV < best.deltaV) {
+        best = { departureTime: porkchop.departureTimes[columnIndex], timeOfFlight: porkchop.flightTimes[rowIndex], deltaV };
+      }
+    }));
+
+    return { departureId, arrivalId, porkchop, departureTime: best.departureTime, timeOfFlight: best.timeOfFlight };
+  }, [G]);
+
   // Add a function to handle planet clicks
   const handlePlanetClick = useCallback((e: React.MouseEvent, planetId: string) => {
     e.stopPropagation(); // Prevent canvas click from triggering
+
+    // In target mode the first body clicked departs and the second is intercepted
+    if (mode === 'target') {
+      if (!intercept || intercept.arrivalId) {
+        setIntercept({ departureId: planetId, arrivalId: null, porkchop: null, departureTime: 0, timeOfFlight: 0 });
+      } else if (planetId !== intercept.departureId) {
+        setIntercept(planInterceptWindow(intercept.departureId, planetId));
+      }
+      return;
+    }
+
+    // While planning a transfer, the next body clicked becomes its target
+    if (transferPlanner && !transferPlanner.targetId && planetId !== transferPlanner.travellerId) {
+      setTransferPlanner({ ...transferPlanner, targetId: planetId });
+      return;
+    }
+
     setSelectedPlanetId(prevId => prevId === planetId ? null : planetId); // Toggle selection
-  }, []);
+  }, [mode, intercept, planInterceptWindow, transferPlanner]);
 
   // Add a function to close popover when clicking outside
   const handleCanvasClick = useCallback(() => {
@@ -608,8 +801,10 @@ export const Canvas: React.FC<CanvasProps> = ({
   const [selectedPlanetId, setSelectedPlanetId] = useState<string | null>(null);
 
   const togglePlanetOrbitalMode = useCallback((planetId: string) => {
-    setItems(prevItems => {
-      return prevItems.map(item => {
+    const prevItems = itemsRef.current;
+
+    commitScene(
+      prevItems.map(item => {
         if (item.id === planetId && item.type === 'planet') {
           // Toggle the isOrbital flag
           const updatedItem = {
@@ -621,51 +816,264 @@ export const Canvas: React.FC<CanvasProps> = ({
           };
 
           // Recalculate velocity based on new orbital mode
-          if (updatedItem.data.isOrbital && prevItems.length > 1) {
-            // Assume the first planet is the central body (like the Sun)
-            const centralPlanet = prevItems[0];
-            
-            // Calculate center points of both planets
-            const centralX = centralPlanet.x + centralPlanet.width / 2;
-            const centralY = centralPlanet.y + centralPlanet.height / 2;
-            const planetX = updatedItem.x + updatedItem.width / 2;
-            const planetY = updatedItem.y + updatedItem.height / 2;
-            
-            // Calculate vector from planet to central planet
-            const dx = centralX - planetX;
-            const dy = centralY - planetY;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            
-            // Normalize the vector
-            const normalizedDx = dx / distance;
-            const normalizedDy = dy / distance;
-            
-            // Calculate perpendicular vector (tangential direction)
-            const perpDx = -normalizedDy;
-            const perpDy = normalizedDx;
-            
-            // Calculate orbital velocity magnitude using v = sqrt(G*M/r)
-            const velocityMagnitude = Math.sqrt(G * centralPlanet.data.mass / distance);
-            
-            // Apply the velocity in the perpendicular (tangential) direction
-            updatedItem.data.velocity = {
-              x: perpDx * velocityMagnitude,
-              y: perpDy * velocityMagnitude
-            };
+          const primaryItem = prevItems.find(other => other.id === updatedItem.data.primaryId);
+          if (updatedItem.data.isOrbital && primaryItem) {
+            // Apply the circular orbit velocity around the planet's own primary
+            updatedItem.data.velocity = circularOrbitVelocity(
+              itemToBody(updatedItem),
+              itemToBody(primaryItem),
+              G,
+              softening
+            );
           } else if (!updatedItem.data.isOrbital) {
             // If changing to random motion, give random velocity
             updatedItem.data.velocity = { 
-              x: (Math.random() - 0.5) * 20, 
-              y: (Math.random() - 0.5) * 20 
+              x: (random.current() - 0.5) * 20, 
+              y: (random.current() - 0.5) * 20 
             };
           }
           
           return updatedItem;
         }
         return item;
-      });
-    });
-  }, [G]);
+      })
+    );
+  }, [G, softening, commitScene]);
+
+  // Pin a body in place or let it move freely
+  const togglePlanetFixed = useCallback((planetId: string) => {
+    commitScene(
+      itemsRef.current.map(item => {
+        if (item.id !== planetId) return item;
+
+        return {
+          ...item,
+          data: {
+            ...item.data,
+            isFixed: !item.data.isFixed,
+            // A pinned body has no velocity of its own
+            velocity: item.data.isFixed ? item.data.velocity : { x: 0, y: 0 }
+          }
+        };
+      })
+    );
+  }, [commitScene]);
+
+  // Set the electric charge read by the Coulomb force law
+  const setPlanetCharge = useCallback((planetId: string, charge: number) => {
+    commitScene(
+      itemsRef.current.map(item => item.id === planetId
+        ? { ...item, data: { ...item.data, charge } }
+        : item
+      )
+    );
+  }, [commitScene]);
+
+  // Replace the maneuver nodes of one spacecraft
+  const updateManeuvers = useCallback((spacecraftId: string, update: (nodes: ManeuverNode[]) => ManeuverNode[]) => {
+    commitScene(
+      itemsRef.current.map(item => item.id === spacecraftId
+        ? { ...item, data: { ...item.data, maneuvers: update(item.data.maneuvers ?? []) } }
+        : item
+      )
+    );
+  }, [commitScene]);
+
+  // Schedule a small prograde burn a little ahead of the current time
+  const addManeuver = useCallback((spacecraftId: string) => {
+    const node: ManeuverNode = {
+      id: 'burn-' + Date.now().toString(),
+      time: Math.ceil(useSimulationStore.getState().simulationTime) + 10,
+      prograde: 5,
+      radial: 0
+    };
+    updateManeuvers(spacecraftId, nodes => [...nodes, node]);
+  }, [updateManeuvers]);
+
+  const updateManeuver = useCallback((spacecraftId: string, node: ManeuverNode) => {
+    updateManeuvers(spacecraftId, nodes => nodes.map(existing => existing.id === node.id ? node : existing));
+  }, [updateManeuvers]);
+
+  const removeManeuver = useCallback((spacecraftId: string, nodeId: string) => {
+    updateManeuvers(spacecraftId, nodes => nodes.filter(node => node.id !== nodeId));
+  }, [updateManeuvers]);
+
+  const planTransfer = useCallback((spacecraftId: string) => {
+    setSelectedPlanetId(null);
+    setTransferPlanner({ travellerId: spacecraftId, targetId: null, type: 'hohmann', intermediateRatio: 2 });
+  }, []);
+
+  // Transfer options from the traveller's current orbit, recomputed as the bodies move
+  const transferPlans = useMemo<TransferPlan[]>(() => {
+    if (!transferPlanner?.targetId) return [];
+
+    const bodies = createSimulationState(items).bodies;
+    const traveller = bodies.find(body => body.id === transferPlanner.travellerId);
+    const target = bodies.find(body => body.id === transferPlanner.targetId);
+    if (!traveller || !target) return [];
+
+    const primary = findPrimary(bodies, traveller);
+    if (!primary || primary.id === traveller.id || primary.id === target.id) return [];
+
+    const time = useSimulationStore.getState().simulationTime;
+    const distance = (body: typeof primary) =>
+      Math.hypot(body.position.x - primary.position.x, body.position.y - primary.position.y);
+    const intermediateRadius = transferPlanner.intermediateRatio * Math.max(distance(traveller), distance(target));
+
+    return [
+      planHohmannTransfer(traveller, target, primary, G, time),
+      planBiEllipticTransfer(traveller, target, primary, G, time, intermediateRadius)
+    ].filter((plan): plan is TransferPlan => plan !== null);
+  }, [items, transferPlanner, G]);
+
+  const scheduleTransfer = useCallback((plan: TransferPlan) => {
+    if (!transferPlanner) return;
+    const nodes = transferManeuvers(plan, 'transfer-' + Date.now().toString());
+    updateManeuvers(transferPlanner.travellerId, existing => [...existing, ...nodes]);
+    setTransferPlanner(null);
+  }, [transferPlanner, updateManeuvers]);
+
+  const transferTraveller = items.find(item => item.id === transferPlanner?.travellerId);
+  const transferTarget = items.find(item => item.id === transferPlanner?.targetId) ?? null;
+
+  // Trajectory for the selected launch window, following the bodies as they move
+  const interceptPlan = useMemo<InterceptPlan | null>(() => {
+    if (!intercept?.porkchop || !intercept.arrivalId) return null;
+
+    const bodies = createSimulationState(items).bodies;
+    const departure = bodies.find(body => body.id === intercept.departureId);
+    const arrival = bodies.find(body => body.id === intercept.arrivalId);
+    const primary = departure && findPrimary(bodies, departure);
+    const time = useSimulationStore.getState().simulationTime;
+    if (!departure || !arrival || !primary || intercept.departureTime < time) return null;
+
+    return planIntercept(departure, arrival, primary, G, time, intercept.departureTime - time, intercept.timeOfFlight);
+  }, [items, intercept, G]);
+
+  // Fly the planned intercept with `item`: right away if departure is now,
+  // otherwise as a maneuver node at the departure time
+  const interceptUpdate = (item: BaseItem, plan: InterceptPlan): BaseItem => {
+    if (plan.departureTime - useSimulationStore.getState().simulationTime < INTERCEPT_IMMEDIATE_WINDOW) {
+      return { ...item, data: { ...item.data, velocity: plan.departureVelocity } };
+    }
+
+    const node: ManeuverNode = {
+      id: 'intercept-' + Date.now().toString(),
+      time: plan.departureTime,
+      prograde: plan.prograde,
+      radial: plan.radial
+    };
+    return { ...item, data: { ...item.data, maneuvers: [...(item.data.maneuvers ?? []), node] } };
+  };
+
+  const applyIntercept = () => {
+    if (!intercept || !interceptPlan) return;
+    commitScene(itemsRef.current.map(item => item.id === intercept.departureId ? interceptUpdate(item, interceptPlan) : item));
+  };
+
+  // Launch a new spacecraft from just outside the departure body
+  const launchInterceptProbe = () => {
+    const departure = itemsRef.current.find(item => item.id === intercept?.departureId);
+    const probeType = mergedItemTypes.spacecraft;
+    if (!departure || !intercept || !interceptPlan || !probeType) return;
+
+    const bodies = createSimulationState(itemsRef.current).bodies;
+    const departureBody = itemToBody(departure);
+    const arrival = bodies.find(body => body.id === intercept.arrivalId);
+    const primary = findPrimary(bodies, departureBody);
+    if (!arrival || !primary) return;
+
+    const frame = radialFrame(departureBody, primary);
+    const offset = Math.max(departure.width, departure.height) / 2 + probeType.defaultWidth;
+    // Radial points towards the primary, so step the other way
+    const centerX = departureBody.position.x - (frame?.radial.x ?? -1) * offset;
+    const centerY = departureBody.position.y - (frame?.radial.y ?? 0) * offset;
+
+    const probe: BaseItem = {
+      id: Date.now().toString(),
+      x: centerX - probeType.defaultWidth / 2,
+      y: centerY - probeType.defaultHeight / 2,
+      width: probeType.defaultWidth,
+      height: probeType.defaultHeight,
+      type: 'spacecraft',
+      data: {
+        ...probeType.defaultData,
+        name: 'Probe',
+        velocity: departure.data.velocity,
+        isOrbital: true,
+        primaryId: primary.id
+      }
+    };
+
+    // The plan was solved from the departure body's position, so solve again
+    // from where the probe starts to meet the target at the same time
+    const time = useSimulationStore.getState().simulationTime;
+    const departureTime = Math.max(time, interceptPlan.departureTime);
+    const arrivalTime = interceptPlan.departureTime + interceptPlan.timeOfFlight;
+    const probePlan = planIntercept(itemToBody(probe), arrival, primary, G, time, departureTime - time, arrivalTime - departureTime);
+    if (!probePlan) return;
+
+    commitScene([...itemsRef.current, interceptUpdate(probe, probePlan)]);
+  };
+
+  // Lagrange points of the selected body and its primary, following them every frame
+  const lagrangeBodies = useMemo(() => {
+    if (!showLagrangePoints || !selectedPlanetId) return null;
+    const bodies = createSimulationState(items).bodies;
+    const secondary = bodies.find(body => body.id === selectedPlanetId);
+    const primary = secondary && findPrimary(bodies, secondary);
+    if (!secondary || !primary || isPinned(secondary, physicsOptions)) return null;
+    return {
+      primary,
+      secondary,
+      system: lagrangePoints(primary, secondary, physicsOptions),
+      primaryPinned: isPinned(primary, physicsOptions)
+    };
+  }, [items, selectedPlanetId, showLagrangePoints, physicsOptions]);
+
+  // A light test body at rest at the point in the co-rotating frame
+  const placeTestBody = (point: LagrangePoint) => {
+    const itemType = mergedItemTypes.planet;
+    if (!itemType || !lagrangeBodies) return;
+
+    const radius = TEST_BODY_RADIUS;
+    const testBody: BaseItem = {
+      id: Date.now().toString(),
+      x: point.position.x - radius,
+      y: point.position.y - radius,
+      width: radius * 2,
+      height: radius * 2,
+      type: 'planet',
+      data: {
+        ...itemType.defaultData,
+        name: `${point.name} Test Body`,
+        color: '#FFD54F',
+        radius,
+        mass: TEST_BODY_MASS,
+        velocity: point.velocity,
+        isOrbital: true,
+        primaryId: lagrangeBodies.primary.id
+      }
+    };
+    commitScene([...itemsRef.current, testBody]);
+  };
+
+  const interceptDeparture = items.find(item => item.id === intercept?.departureId);
+  const interceptArrival = items.find(item => item.id === intercept?.arrivalId) ?? null;
+
+  // Cancel the net momentum when barycentric mode is switched on by hand
+  useEffect(() => {
+    if (!momentumResetRequest) return;
+    setMomentumResetRequest(false);
+    if (itemsRef.current.length <= 1) return;
+
+    const bodies = removeNetMomentum(createSimulationState(itemsRef.current).bodies);
+    const velocities = new Map(bodies.map(body => [body.id, body.velocity]));
+    commitScene(itemsRef.current.map(item => {
+      const velocity = velocities.get(item.id);
+      return velocity ? { ...item, data: { ...item.data, velocity } } : item;
+    }));
+  }, [momentumResetRequest, setMomentumResetRequest, commitScene]);
 
   // Add wheel event handler to zoom in/out
   const handleWheel = useCallback((e: React.WheelEvent) => {
@@ -726,7 +1134,7 @@ export const Canvas: React.FC<CanvasProps> = ({
         onWheel={handleWheel}
         cursor={isLocalDragging || isDragging ? 'grabbing' : 
                mode === 'pan' ? 'grab' : 
-               mode === 'add' ? 'crosshair' : 'default'}
+               mode === 'add' || mode === 'target' ? 'crosshair' : 'default'}
       />
       
       {/* Orbit Path Layer (z-index: 10) */}
@@ -755,12 +1163,39 @@ export const Canvas: React.FC<CanvasProps> = ({
         showForces={showForces}
       />
 
+      {/* What-if fork: ghosts of the forked bodies (z-index: 25) */}
+      <ForkGhostLayer
+        canvasWidth={CANVAS_WIDTH}
+        canvasHeight={CANVAS_HEIGHT}
+        items={items}
+        forkItems={forkItems}
+      />
+
+      {/* Lagrange Point Layer (z-index: 20), markers take right-clicks */}
+      <LagrangeLayer
+        canvasWidth={CANVAS_WIDTH}
+        canvasHeight={CANVAS_HEIGHT}
+        system={lagrangeBodies?.system ?? null}
+        secondaryPosition={lagrangeBodies?.secondary.position ?? null}
+        primaryPinned={!!lagrangeBodies?.primaryPinned}
+        onPlaceTestBody={placeTestBody}
+      />
+
+      {/* Quadtree Debug Layer (z-index: 15) */}
+      <QuadtreeLayer
+        canvasWidth={CANVAS_WIDTH}
+        canvasHeight={CANVAS_HEIGHT}
+        cells={quadtreeCells}
+        showQuadtree={showQuadtree}
+      />
+
       {/* Force Vector Layer (z-index: 101-102) */}
       <ForceVisualization
         canvasWidth={CANVAS_WIDTH}
         canvasHeight={CANVAS_HEIGHT}
         items={items}
         detailedForceVectors={detailedForceVectors}
+        environmentVectors={environmentVectors}
         velocityVectors={velocityVectors}
         showForces={showForces}
       />
@@ -772,8 +1207,101 @@ export const Canvas: React.FC<CanvasProps> = ({
         selectedPlanetId={selectedPlanetId}
         setSelectedPlanetId={setSelectedPlanetId}
         togglePlanetOrbitalMode={togglePlanetOrbitalMode}
+        togglePlanetFixed={togglePlanetFixed}
+        setPlanetCharge={setPlanetCharge}
+        addManeuver={addManeuver}
+        updateManeuver={updateManeuver}
+        removeManeuver={removeManeuver}
+        planTransfer={planTransfer}
         handlePlanetClick={handlePlanetClick}
       />
+
+      {/* Maneuver Node Layer (z-index: 80), handles are draggable */}
+      {showOrbits && (
+        <ManeuverLayer
+          canvasWidth={CANVAS_WIDTH}
+          canvasHeight={CANVAS_HEIGHT}
+          items={items}
+          markers={maneuverMarkers}
+          scale={transform.scale}
+          onUpdateManeuver={updateManeuver}
+        />
+      )}
+
+      {/* Intercept planner: arc drawn like an orbit path, porkchop panel */}
+      {interceptPlan && interceptDeparture && (
+        <OrbitPathVisualization
+          canvasWidth={CANVAS_WIDTH}
+          canvasHeight={CANVAS_HEIGHT}
+          items={items}
+          orbitPaths={[{ planetId: interceptDeparture.id, points: interceptPlan.path, color: '#FF4081' }]}
+          showOrbits
+        />
+      )}
+      {intercept && interceptDeparture && (
+        <InterceptPlannerPanel
+          departure={interceptDeparture}
+          arrival={interceptArrival}
+          porkchop={intercept.porkchop}
+          plan={interceptPlan}
+          departureTime={intercept.departureTime}
+          timeOfFlight={intercept.timeOfFlight}
+          simulationTime={simulationTime}
+          onSelect={(departureTime, timeOfFlight) => setIntercept({ ...intercept, departureTime, timeOfFlight })}
+          onApply={applyIntercept}
+          onLaunchProbe={launchInterceptProbe}
+          onRefresh={() => intercept.arrivalId && setIntercept(planInterceptWindow(intercept.departureId, intercept.arrivalId))}
+          onClose={() => setIntercept(null)}
+        />
+      )}
+
+      {/* Orbital elements dialog, portalled out of the transformed canvas */}
+      {showOrbitDialog && createPortal(
+        <OrbitalElementsDialog
+          bodies={createSimulationState(items).bodies}
+          bodyNames={Object.fromEntries(items.map(item => [item.id, item.data.name]))}
+          itemTypes={Object.entries(mergedItemTypes).map(([type, config]) => ({ type, label: config.defaultData.name ?? type }))}
+          defaultPrimaryId={findDominantBody(createSimulationState(items).bodies)?.id}
+          onCreate={createFromElements}
+          onClose={() => setShowOrbitDialog(false)}
+        />,
+        document.body
+      )}
+
+      {/* Fork panel, portalled out of the transformed canvas */}
+      {forkItems && createPortal(
+        <ForkPanel
+          forkItems={forkItems}
+          divergence={divergence}
+          isPlaying={isPlaying}
+          onUpdateBody={updateForkBody}
+          onEnd={() => setForkEnabled(false)}
+        />,
+        document.body
+      )}
+
+      {/* Transfer planner: ellipse overlay (z-index: 12) and options panel */}
+      {transferPlanner && transferTraveller && (
+        <>
+          <TransferLayer
+            canvasWidth={CANVAS_WIDTH}
+            canvasHeight={CANVAS_HEIGHT}
+            target={transferTarget}
+            plan={transferPlans.find(plan => plan.type === transferPlanner.type) ?? null}
+          />
+          <TransferPlannerPanel
+            traveller={transferTraveller}
+            target={transferTarget}
+            plans={transferPlans}
+            selectedType={transferPlanner.type}
+            intermediateRatio={transferPlanner.intermediateRatio}
+            onSelectType={(type) => setTransferPlanner({ ...transferPlanner, type })}
+            onChangeIntermediateRatio={(intermediateRatio) => setTransferPlanner({ ...transferPlanner, intermediateRatio })}
+            onSchedule={scheduleTransfer}
+            onClose={() => setTransferPlanner(null)}
+          />
+        </>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { EventLogEntry, useSimulationStore } from '../store/simulationStore';
+
+// How long each notification stays on screen
+const NOTIFICATION_DURATION_MS = 3000;
+const MAX_VISIBLE_NOTIFICATIONS = 4;
+
+/**
+ * Briefly shows a notification for each collision as it happens
+ */
+export const CollisionNotifications: React.FC = () => {
+  const { eventLog } = useSimulationStore();
+  const [visible, setVisible] = useState<{ entry: EventLogEntry; expiresAt: number }[]>([]);
+  const [lastSeenId, setLastSeenId] = useState(0);
+
+  // Pick up collisions that were logged since the last render
+  useEffect(() => {
+    const fresh = eventLog.filter(entry => entry.id > lastSeenId && entry.event.type === 'collision');
+    if (eventLog.length > 0) {
+      setLastSeenId(eventLog[eventLog.length - 1].id);
+    }
+    if (fresh.length === 0) return;
+
+    const expiresAt = Date.now() + NOTIFICATION_DURATION_MS;
+    setVisible(prev => [
+      ...prev,
+      ...fresh.map(entry => ({ entry, expiresAt }))
+    ].slice(-MAX_VISIBLE_NOTIFICATIONS));
+  }, [eventLog, lastSeenId]);
+
+  // Drop expired notifications
+  useEffect(() => {
+    if (visible.length === 0) return;
+
+    const timeout = setTimeout(() => {
+      setVisible(prev => prev.filter(notification => notification.expiresAt > Date.now()));
+    }, Math.max(0, visible[0].expiresAt - Date.now()));
+
+    return () => clearTimeout(timeout);
+  }, [visible]);
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 20,
+      left: '50%',
+      transform: 'translateX(-50%)',
+      zIndex: 1000,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '6px',
+      pointerEvents: 'none'
+    }}>
+      {visible.map(({ entry }) => {
+        const [first, second] = entry.bodyNames;
+        const isMerge = entry.event.type === 'collision' && entry.event.mode === 'merge';
+
+        return (
+          <div
+            key={entry.id}
+            style={{
+              background: 'rgba(30, 30, 40, 0.9)',
+              borderLeft: `4px solid ${isMerge ? '#FF5722' : '#03A9F4'}`,
+              color: 'white',
+              padding: '8px 12px',
+              borderRadius: '4px',
+              fontSize: '14px',
+              boxShadow: '0 2px 10px rgba(0,0,0,0.3)'
+            }}
+          >
+            {isMerge ? '💥' : '↔️'} {first} {isMerge ? 'merged with' : 'bounced off'} {second}
+            <span style={{ opacity: 0.6, marginLeft: '8px', fontFamily: 'monospace', fontSize: '12px' }}>
+              t={entry.event.time.toFixed(1)}s
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
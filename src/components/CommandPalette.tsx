@@ -1,23 +1,29 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { FORCE_LAWS, ForceLawType, IntegratorType, INTEGRATORS } from '../physics';
+import { SCENE_PRESETS } from '../store/presets';
+import { isTextEntryTarget } from './keyboard';
 import { useSimulationStore } from '../store/simulationStore';
 
 interface CommandOption {
   id: string;
   label: string;
+  description?: string; // Shown under the label and matched by the search
   shortcut?: string;
   action: () => void;
 }
 
 interface CommandPaletteProps {
   onCenterView?: () => void;
-  mode?: 'pan' | 'add';
+  mode?: 'pan' | 'add' | 'target';
   toggleMode?: () => void;
+  toggleTargetMode?: () => void;
 }
 
 const CommandPalette: React.FC<CommandPaletteProps> = ({ 
   onCenterView,
   mode = 'add',
-  toggleMode
+  toggleMode,
+  toggleTargetMode
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
@@ -33,8 +39,33 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
     toggleShowOrbits,
     planetaryForces,
     togglePlanetaryForces,
+    barycentric,
+    toggleBarycentric,
+    forceSolver,
+    setForceSolver,
+    showQuadtree,
+    toggleShowQuadtree,
+    showDiagnostics,
+    toggleShowDiagnostics,
+    showEventLog,
+    toggleShowEventLog,
+    adaptiveTimeStep,
+    toggleAdaptiveTimeStep,
+    collisionMode,
+    setCollisionMode,
     timeScale,
-    setTimeScale
+    setTimeScale,
+    integrator,
+    setIntegrator,
+    forceLaws,
+    toggleForceLaw,
+    setShowOrbitDialog,
+    showLagrangePoints,
+    toggleShowLagrangePoints,
+    forkEnabled,
+    toggleForkEnabled,
+    setSceneFileRequest,
+    setPresetRequest
   } = useSimulationStore();
 
   // Define available commands
@@ -63,6 +94,83 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
       shortcut: 'G',
       action: togglePlanetaryForces
     },
+    {
+      id: 'toggle-barycentric',
+      label: barycentric ? 'Pin Fixed Bodies' : 'Barycentric Mode (Stars Move Too)',
+      action: toggleBarycentric
+    },
+    {
+      id: 'toggle-force-solver',
+      label: forceSolver === 'barnes-hut' ? 'Use Direct Summation Gravity' : 'Use Barnes-Hut Gravity',
+      shortcut: 'B',
+      action: () => setForceSolver(forceSolver === 'barnes-hut' ? 'direct' : 'barnes-hut')
+    },
+    {
+      id: 'toggle-quadtree',
+      label: showQuadtree ? 'Hide Quadtree' : 'Show Quadtree',
+      shortcut: 'Q',
+      action: toggleShowQuadtree
+    },
+    {
+      id: 'toggle-diagnostics',
+      label: showDiagnostics ? 'Hide Diagnostics' : 'Show Diagnostics',
+      action: toggleShowDiagnostics
+    },
+    {
+      id: 'toggle-event-log',
+      label: showEventLog ? 'Hide Event Log' : 'Show Event Log',
+      action: toggleShowEventLog
+    },
+    {
+      id: 'toggle-adaptive-time-step',
+      label: adaptiveTimeStep ? 'Use Fixed Time Step' : 'Use Adaptive Time Step',
+      action: toggleAdaptiveTimeStep
+    },
+    {
+      id: 'toggle-lagrange-points',
+      label: showLagrangePoints ? 'Hide Lagrange Points' : 'Show Lagrange Points (selected body)',
+      action: toggleShowLagrangePoints
+    },
+    {
+      id: 'save-scene',
+      label: 'Save Scene to File…',
+      action: () => setSceneFileRequest('save')
+    },
+    {
+      id: 'load-scene',
+      label: 'Load Scene from File…',
+      action: () => setSceneFileRequest('load')
+    },
+    {
+      id: 'copy-link',
+      label: 'Copy Link to Scene',
+      action: () => setSceneFileRequest('copy-link')
+    },
+    {
+      id: 'toggle-fork',
+      label: forkEnabled ? 'End Fork' : 'Fork Simulation (What-If)',
+      action: toggleForkEnabled
+    },
+    {
+      id: 'create-from-elements',
+      label: 'Create Body from Orbital Elements…',
+      action: () => setShowOrbitDialog(true)
+    },
+    {
+      id: 'collisions-merge',
+      label: `Collisions: Merge${collisionMode === 'merge' ? ' (active)' : ''}`,
+      action: () => setCollisionMode('merge')
+    },
+    {
+      id: 'collisions-bounce',
+      label: `Collisions: Bounce${collisionMode === 'bounce' ? ' (active)' : ''}`,
+      action: () => setCollisionMode('bounce')
+    },
+    {
+      id: 'collisions-off',
+      label: `Collisions: Pass Through${collisionMode === 'pass-through' ? ' (active)' : ''}`,
+      action: () => setCollisionMode('pass-through')
+    },
     {
       id: 'speed-normal',
       label: 'Normal Speed (1x)',
@@ -89,6 +197,34 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
     }
   ];
 
+  // Add a command to load each preset scenario
+  SCENE_PRESETS.forEach(preset => {
+    commands.push({
+      id: `preset-${preset.id}`,
+      label: `Load Preset: ${preset.name}`,
+      description: preset.description,
+      action: () => setPresetRequest(preset.id)
+    });
+  });
+
+  // Add a command for each integrator
+  (Object.keys(INTEGRATORS) as IntegratorType[]).forEach(type => {
+    commands.push({
+      id: `integrator-${type}`,
+      label: `Use ${INTEGRATORS[type].label} Integrator${integrator === type ? ' (active)' : ''}`,
+      action: () => setIntegrator(type)
+    });
+  });
+
+  // Add a command to switch each force law on or off
+  (Object.keys(FORCE_LAWS) as ForceLawType[]).forEach(type => {
+    commands.push({
+      id: `force-law-${type}`,
+      label: `${forceLaws.includes(type) ? 'Disable' : 'Enable'} ${FORCE_LAWS[type].label} Force`,
+      action: () => toggleForceLaw(type)
+    });
+  });
+
   // Add center view command if the prop is provided
   if (onCenterView) {
     commands.push({
@@ -109,9 +245,17 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
     });
   }
 
+  if (toggleTargetMode) {
+    commands.push({
+      id: 'toggle-target-mode',
+      label: mode === 'target' ? 'Leave Target Tool' : 'Target Tool (Lambert Intercept)',
+      action: toggleTargetMode
+    });
+  }
+
   // Filter commands based on search term
-  const filteredCommands = commands.filter(command => 
-    command.label.toLowerCase().includes(searchTerm.toLowerCase())
+  const filteredCommands = commands.filter(command =>
+    [command.label, command.description ?? ''].some(text => text.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
   // Handle keyboard shortcuts
@@ -128,6 +272,9 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
       if (e.key === 'Escape' && isOpen) {
         setIsOpen(false);
       }
+
+      // Letters typed into a field are not shortcuts
+      if (isTextEntryTarget(e.target)) return;
       
       // Handle keyboard shortcuts when palette is closed
       if (!isOpen) {
@@ -265,7 +412,14 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({
                 e.currentTarget.style.backgroundColor = 'transparent';
               }}
             >
-              <span style={{ fontWeight: 500 }}>{command.label}</span>
+              <span>
+                <span style={{ fontWeight: 500 }}>{command.label}</span>
+                {command.description && (
+                  <span style={{ display: 'block', marginTop: '3px', fontSize: '12px', color: '#999' }}>
+                    {command.description}
+                  </span>
+                )}
+              </span>
               {command.shortcut && (
                 <span
                   style={{
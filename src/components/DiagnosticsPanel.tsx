@@ -0,0 +1,159 @@
+import React from 'react';
+import { DiagnosticsSample, maxDrift } from '../physics';
+import { useSimulationStore } from '../store/simulationStore';
+
+const SPARKLINE_WIDTH = 180;
+const SPARKLINE_HEIGHT = 40;
+
+// Drift values are fractions; show them as percentages
+const formatDrift = (drift: number | null): string => {
+  if (drift === null) return 'n/a';
+  return `${(drift * 100).toPrecision(2)}%`;
+};
+
+const formatValue = (value: number): string => {
+  return Math.abs(value) >= 1e5 || (value !== 0 && Math.abs(value) < 1e-2)
+    ? value.toExponential(2)
+    : value.toFixed(2);
+};
+
+/**
+ * SVG polyline of the largest drift over time, with the warning threshold as
+ * a dashed line. The vertical scale always includes the threshold.
+ */
+const Sparkline: React.FC<{ history: DiagnosticsSample[]; threshold: number }> = ({ history, threshold }) => {
+  const drifts = history.map(sample => maxDrift(sample.drift));
+  const top = Math.max(threshold * 1.5, ...drifts);
+  const y = (drift: number) => SPARKLINE_HEIGHT - (drift / top) * SPARKLINE_HEIGHT;
+  const x = (index: number) => drifts.length > 1 ? (index / (drifts.length - 1)) * SPARKLINE_WIDTH : 0;
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} style={{ display: 'block', background: 'rgba(0,0,0,0.3)', borderRadius: '3px' }}>
+      <line
+        x1={0}
+        x2={SPARKLINE_WIDTH}
+        y1={y(threshold)}
+        y2={y(threshold)}
+        stroke="rgba(244, 67, 54, 0.6)"
+        strokeDasharray="3,3"
+      />
+      <polyline
+        points={drifts.map((drift, index) => `${x(index)},${y(drift)}`).join(' ')}
+        fill="none"
+        stroke={drifts.some(drift => drift > threshold) ? '#FF9800' : '#4CAF50'}
+        strokeWidth={1.5}
+      />
+    </svg>
+  );
+};
+
+/**
+ * Collapsible panel showing conserved quantities and how far they have
+ * drifted since the baseline, to judge whether a scene is numerically healthy
+ */
+export const DiagnosticsPanel: React.FC = () => {
+  const {
+    diagnostics,
+    diagnosticsHistory,
+    driftThreshold,
+    showDiagnostics,
+    setDriftThreshold,
+    toggleShowDiagnostics
+  } = useSimulationStore();
+
+  const isDrifting = !!diagnostics && maxDrift(diagnostics.drift) > driftThreshold;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      bottom: 20,
+      right: 20,
+      backgroundColor: 'rgba(30, 30, 40, 0.8)',
+      padding: '10px',
+      borderRadius: '8px',
+      boxShadow: '0 2px 10px rgba(0,0,0,0.3)',
+      zIndex: 1000,
+      color: 'white',
+      fontSize: '12px',
+      minWidth: '200px'
+    }}>
+      <div
+        onClick={toggleShowDiagnostics}
+        style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', cursor: 'pointer', gap: '10px' }}
+      >
+        <span style={{ fontWeight: 'bold', fontSize: '14px' }}>
+          {showDiagnostics ? '▾' : '▸'} Diagnostics
+        </span>
+        {isDrifting && (
+          <span style={{ color: '#FF9800', fontWeight: 'bold' }} title="Drift exceeds the threshold">
+            ⚠ Drift {formatDrift(maxDrift(diagnostics.drift))}
+          </span>
+        )}
+      </div>
+
+      {showDiagnostics && (
+        <div style={{ marginTop: '8px' }}>
+          {diagnostics ? (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontFamily: 'monospace' }}>
+              <tbody>
+                <tr>
+                  <td style={{ opacity: 0.7 }}>Kinetic:</td>
+                  <td style={{ textAlign: 'right' }}>{formatValue(diagnostics.totals.kineticEnergy)}</td>
+                  <td />
+                </tr>
+                <tr>
+                  <td style={{ opacity: 0.7 }}>Potential:</td>
+                  <td style={{ textAlign: 'right' }}>{formatValue(diagnostics.totals.potentialEnergy)}</td>
+                  <td />
+                </tr>
+                <tr>
+                  <td style={{ opacity: 0.7 }}>Energy:</td>
+                  <td style={{ textAlign: 'right' }}>{formatValue(diagnostics.totals.totalEnergy)}</td>
+                  <td style={{ textAlign: 'right', paddingLeft: '8px' }}>{formatDrift(diagnostics.drift.energy)}</td>
+                </tr>
+                <tr>
+                  <td style={{ opacity: 0.7 }}>Momentum:</td>
+                  <td style={{ textAlign: 'right' }}>
+                    {diagnostics.totals.momentum
+                      ? formatValue(Math.hypot(diagnostics.totals.momentum.x, diagnostics.totals.momentum.y))
+                      : '—'}
+                  </td>
+                  <td style={{ textAlign: 'right', paddingLeft: '8px' }}>{formatDrift(diagnostics.drift.momentum)}</td>
+                </tr>
+                <tr>
+                  <td style={{ opacity: 0.7 }}>Ang. mom.:</td>
+                  <td style={{ textAlign: 'right' }}>
+                    {diagnostics.totals.angularMomentum !== null ? formatValue(diagnostics.totals.angularMomentum) : '—'}
+                  </td>
+                  <td style={{ textAlign: 'right', paddingLeft: '8px' }}>{formatDrift(diagnostics.drift.angularMomentum)}</td>
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <div style={{ opacity: 0.7 }}>No data yet</div>
+          )}
+
+          <div style={{ marginTop: '8px' }}>
+            <Sparkline history={diagnosticsHistory} threshold={driftThreshold} />
+          </div>
+
+          <div style={{ marginTop: '8px', display: 'flex', alignItems: 'center', gap: '5px' }}>
+            <span style={{ opacity: 0.7 }}>Warn above:</span>
+            <input
+              type="number"
+              min={0.01}
+              step={0.1}
+              value={Number((driftThreshold * 100).toPrecision(3))}
+              onChange={(e) => {
+                const percent = Number(e.target.value);
+                if (percent > 0) setDriftThreshold(percent / 100);
+              }}
+              style={{ width: '60px' }}
+            />
+            <span>%</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
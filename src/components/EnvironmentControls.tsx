@@ -0,0 +1,145 @@
+import React from 'react';
+import { DragModel, HALO_PROFILES, HaloProfile } from '../physics';
+import { useSimulationStore } from '../store/simulationStore';
+
+// Drag models in the order the button cycles through them
+const DRAG_MODELS: { model: DragModel; label: string }[] = [
+  { model: 'none', label: 'Drag: Off' },
+  { model: 'linear', label: 'Drag: Linear' },
+  { model: 'quadratic', label: 'Drag: Quadratic' }
+];
+
+// Field strength used when the uniform field is first switched on (pointing down)
+const DEFAULT_FIELD_STRENGTH = 0.5;
+
+const buttonStyle = (active: boolean, color: string): React.CSSProperties => ({
+  background: active ? color : '#607D8B',
+  color: 'white',
+  border: 'none',
+  padding: '5px 10px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '14px'
+});
+
+const Slider: React.FC<{
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  digits?: number;
+  onChange: (value: number) => void;
+}> = ({ label, min, max, step, value, digits = 0, onChange }) => (
+  <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+    <span style={{ color: 'white', fontSize: '14px' }}>{label}:</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+    />
+    <span style={{ color: 'white', fontSize: '12px', fontFamily: 'monospace' }}>{value.toFixed(digits)}</span>
+  </div>
+);
+
+/**
+ * Controls for the scene's environmental forces: drag, a uniform field and
+ * a dark-matter halo. Each group only shows its parameters while enabled.
+ */
+export const EnvironmentControls: React.FC = () => {
+  const { environment, setEnvironment } = useSimulationStore();
+  const { dragModel, dragCoefficient, uniformField, halo } = environment;
+
+  const dragIndex = DRAG_MODELS.findIndex(option => option.model === dragModel);
+  const fieldEnabled = uniformField.x !== 0 || uniformField.y !== 0;
+
+  return (
+    <>
+      <button
+        onClick={() => setEnvironment({ dragModel: DRAG_MODELS[(dragIndex + 1) % DRAG_MODELS.length].model })}
+        style={buttonStyle(dragModel !== 'none', '#E91E63')}
+      >
+        {DRAG_MODELS[dragIndex].label}
+      </button>
+      {dragModel !== 'none' && (
+        <Slider
+          label="c"
+          min={0}
+          max={0.5}
+          step={0.01}
+          digits={2}
+          value={dragCoefficient}
+          onChange={(value) => setEnvironment({ dragCoefficient: value })}
+        />
+      )}
+
+      <button
+        onClick={() => setEnvironment({ uniformField: fieldEnabled ? { x: 0, y: 0 } : { x: 0, y: DEFAULT_FIELD_STRENGTH } })}
+        style={buttonStyle(fieldEnabled, '#8BC34A')}
+      >
+        {fieldEnabled ? 'Field: On' : 'Field: Off'}
+      </button>
+      {fieldEnabled && (
+        <>
+          <Slider
+            label="gx"
+            min={-2}
+            max={2}
+            step={0.1}
+            digits={1}
+            value={uniformField.x}
+            onChange={(value) => setEnvironment({ uniformField: { ...uniformField, x: value } })}
+          />
+          <Slider
+            label="gy"
+            min={-2}
+            max={2}
+            step={0.1}
+            digits={1}
+            value={uniformField.y}
+            onChange={(value) => setEnvironment({ uniformField: { ...uniformField, y: value } })}
+          />
+        </>
+      )}
+
+      <button
+        onClick={() => setEnvironment({ halo: { ...halo, enabled: !halo.enabled } })}
+        style={buttonStyle(halo.enabled, '#AB47BC')}
+      >
+        {halo.enabled ? 'Halo: On' : 'Halo: Off'}
+      </button>
+      {halo.enabled && (
+        <>
+          <select
+            value={halo.profile}
+            onChange={(e) => setEnvironment({ halo: { ...halo, profile: e.target.value as HaloProfile } })}
+            style={{ fontSize: '12px' }}
+          >
+            {(Object.keys(HALO_PROFILES) as HaloProfile[]).map(profile => (
+              <option key={profile} value={profile}>{HALO_PROFILES[profile].label}</option>
+            ))}
+          </select>
+          <Slider
+            label="M"
+            min={0}
+            max={20000}
+            step={100}
+            value={halo.mass}
+            onChange={(value) => setEnvironment({ halo: { ...halo, mass: value } })}
+          />
+          <Slider
+            label="a"
+            min={50}
+            max={2000}
+            step={50}
+            value={halo.scaleRadius}
+            onChange={(value) => setEnvironment({ halo: { ...halo, scaleRadius: value } })}
+          />
+        </>
+      )}
+    </>
+  );
+};
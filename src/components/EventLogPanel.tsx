@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { SimulationEvent, SimulationEventType } from '../physics';
+import { EventLogEntry, useSimulationStore } from '../store/simulationStore';
+
+// Label, icon and color of each event type, in the order the filters appear
+const EVENT_TYPES: { type: SimulationEventType; label: string; icon: string; color: string }[] = [
+  { type: 'collision', label: 'Collisions', icon: '💥', color: '#FF5722' },
+  { type: 'close-approach', label: 'Approaches', icon: '⇢', color: '#FFC107' },
+  { type: 'capture', label: 'Captures', icon: '⊙', color: '#4CAF50' },
+  { type: 'escape', label: 'Escapes', icon: '↗', color: '#FF9800' },
+  { type: 'left-canvas', label: 'Left canvas', icon: '⛶', color: '#9E9E9E' },
+  { type: 'maneuver', label: 'Burns', icon: '🔥', color: '#00BCD4' }
+];
+
+const describe = (event: SimulationEvent, names: string[]): string => {
+  const [first, second] = names;
+  switch (event.type) {
+    case 'collision':
+      return `${first} ${event.mode === 'merge' ? 'merged with' : 'bounced off'} ${second}`;
+    case 'close-approach':
+      return `${first} passed ${second} at ${event.distance.toFixed(1)}`;
+    case 'capture':
+      return `${first} captured by ${second}`;
+    case 'escape':
+      return `${first} escaped from ${second}`;
+    case 'left-canvas':
+      return `${first} left the canvas`;
+    case 'maneuver': {
+      const burn = `${first} burned Δv ${Math.hypot(event.deltaV.x, event.deltaV.y).toFixed(1)}`;
+      return event.overdue ? `${burn}, overdue from ${event.scheduledTime.toFixed(1)}s` : burn;
+    }
+  }
+};
+
+/**
+ * Collapsible, filterable log of simulation events with their simulated
+ * times. Clicking an entry centers the view on the bodies involved, where
+ * they are now.
+ */
+export const EventLogPanel: React.FC = () => {
+  const {
+    eventLog,
+    showEventLog,
+    closeApproachDistance,
+    toggleShowEventLog,
+    clearEventLog,
+    setCloseApproachDistance,
+    setFocusRequest
+  } = useSimulationStore();
+  const [hiddenTypes, setHiddenTypes] = useState<SimulationEventType[]>([]);
+
+  const toggleType = (type: SimulationEventType) => {
+    setHiddenTypes(prev => prev.includes(type) ? prev.filter(hidden => hidden !== type) : [...prev, type]);
+  };
+
+  // Newest first
+  const entries: EventLogEntry[] = eventLog.filter(entry => !hiddenTypes.includes(entry.event.type)).reverse();
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 20,
+      left: 20,
+      backgroundColor: 'rgba(30, 30, 40, 0.8)',
+      padding: '10px',
+      borderRadius: '8px',
+      boxShadow: '0 2px 10px rgba(0,0,0,0.3)',
+      zIndex: 1000,
+      color: 'white',
+      fontSize: '12px',
+      width: showEventLog ? '300px' : undefined
+    }}>
+      <div
+        onClick={toggleShowEventLog}
+        style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', cursor: 'pointer', gap: '10px' }}
+      >
+        <span style={{ fontWeight: 'bold', fontSize: '14px' }}>
+          {showEventLog ? '▾' : '▸'} Events
+        </span>
+        <span style={{ opacity: 0.7 }}>{eventLog.length}</span>
+      </div>
+
+      {showEventLog && (
+        <div style={{ marginTop: '8px' }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '8px' }}>
+            {EVENT_TYPES.map(({ type, label, color }) => {
+              const shown = !hiddenTypes.includes(type);
+              return (
+                <button
+                  key={type}
+                  onClick={() => toggleType(type)}
+                  style={{
+                    background: shown ? color : 'transparent',
+                    color: 'white',
+                    border: `1px solid ${color}`,
+                    borderRadius: '10px',
+                    padding: '2px 8px',
+                    fontSize: '11px',
+                    cursor: 'pointer',
+                    opacity: shown ? 1 : 0.6
+                  }}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+
+          <div style={{ maxHeight: '260px', overflowY: 'auto' }}>
+            {entries.length === 0 && <div style={{ opacity: 0.7 }}>No events</div>}
+            {entries.map(entry => {
+              const style = EVENT_TYPES.find(option => option.type === entry.event.type);
+              return (
+                <div
+                  key={entry.id}
+                  onClick={() => setFocusRequest({ bodyIds: entry.event.bodyIds, fallback: entry.event.position })}
+                  title="Center the view on these bodies"
+                  style={{
+                    display: 'flex',
+                    gap: '6px',
+                    padding: '3px 4px',
+                    borderLeft: `3px solid ${style?.color ?? 'white'}`,
+                    marginBottom: '2px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  <span style={{ fontFamily: 'monospace', opacity: 0.6, minWidth: '52px' }}>
+                    {entry.event.time.toFixed(1)}s
+                  </span>
+                  <span>{style?.icon} {describe(entry.event, entry.bodyNames)}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div style={{ marginTop: '8px', display: 'flex', alignItems: 'center', gap: '5px' }}>
+            <span style={{ opacity: 0.7 }}>Approach within:</span>
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={closeApproachDistance}
+              onChange={(e) => {
+                const distance = Number(e.target.value);
+                if (distance >= 0) setCloseApproachDistance(distance);
+              }}
+              style={{ width: '50px' }}
+            />
+            <button
+              onClick={clearEventLog}
+              style={{ marginLeft: 'auto', background: '#444', color: 'white', border: 'none', borderRadius: '3px', padding: '2px 8px', cursor: 'pointer' }}
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
-import { BaseItem } from './Canvas';
+import { BaseItem } from '../types/canvas';
+import { EnvironmentalForceType } from '../physics';
 import { useSimulationStore } from '../store/simulationStore';
 
 // Define and export the interfaces
@@ -10,6 +11,20 @@ export interface ForceVector {
   forceY: number;
 }
 
+export interface EnvironmentVector {
+  planetId: string;
+  type: EnvironmentalForceType;
+  forceX: number;
+  forceY: number;
+}
+
+// Colors for the environmental force types, distinct from the per-source forces
+const ENVIRONMENT_VECTOR_COLORS: Record<EnvironmentalForceType, string> = {
+  drag: 'rgba(233, 30, 99, 0.8)', // Pink
+  'uniform-field': 'rgba(139, 195, 74, 0.8)', // Light green
+  halo: 'rgba(171, 71, 188, 0.8)' // Purple
+};
+
 export interface VelocityVector {
   planetId: string;
   velocityX: number;
@@ -25,6 +40,7 @@ interface ForceVisualizationProps {
   canvasHeight: number;
   items: BaseItem[];
   detailedForceVectors: ForceVector[];
+  environmentVectors: EnvironmentVector[];
   velocityVectors: VelocityVector[];
   showForces: boolean;
 }
@@ -34,6 +50,7 @@ const ForceVisualization: React.FC<ForceVisualizationProps> = ({
   canvasHeight,
   items,
   detailedForceVectors,
+  environmentVectors,
   velocityVectors,
   showForces
 }) => {
@@ -70,8 +87,8 @@ const ForceVisualization: React.FC<ForceVisualizationProps> = ({
         const scaledForceY = normalizedForceY * scale;
         
         // Define force line color based on source planet's role and planetaryForces setting
-        const isCentralSource = items[0]?.id === sourcePlanet.id;
-        const forceColor = isCentralSource ? 'rgba(255, 165, 0, 0.7)' : // Orange for Sun
+        const isCentralSource = targetPlanet.data.primaryId === sourcePlanet.id;
+        const forceColor = isCentralSource ? 'rgba(255, 165, 0, 0.7)' : // Orange for the target's primary
                             planetaryForces ? 'rgba(100, 149, 237, 0.7)' : // Blue for planet-planet forces
                             'rgba(70, 70, 70, 0.3)'; // Gray and faded for disabled planet-planet forces
 
@@ -118,6 +135,57 @@ const ForceVisualization: React.FC<ForceVisualizationProps> = ({
         );
       })}
       
+      {/* Environmental force vectors (drag, uniform field, halo), drawn from each planet */}
+      {environmentVectors.map((vector, index) => {
+        const planet = items.find(item => item.id === vector.planetId);
+        if (!planet) return null;
+
+        const forceMagnitude = Math.sqrt(vector.forceX * vector.forceX + vector.forceY * vector.forceY);
+        if (forceMagnitude === 0) return null;
+
+        const planetX = planet.x + planet.width / 2;
+        const planetY = planet.y + planet.height / 2;
+
+        // Length follows the acceleration so heavy and light planets compare fairly
+        const accelerationScale = 40; // Pixels per unit of acceleration
+        const length = Math.min(150, Math.max(15, forceMagnitude / planet.data.mass * accelerationScale));
+        const directionX = vector.forceX / forceMagnitude;
+        const directionY = vector.forceY / forceMagnitude;
+        const endX = planetX + directionX * length;
+        const endY = planetY + directionY * length;
+        const color = ENVIRONMENT_VECTOR_COLORS[vector.type];
+
+        return (
+          <svg 
+            key={`environment-${index}`} 
+            style={{ 
+              position: 'absolute', 
+              top: 0, 
+              left: 0, 
+              width: canvasWidth, 
+              height: canvasHeight, 
+              pointerEvents: 'none',
+              zIndex: 15
+            }}
+          >
+            <line 
+              x1={planetX} 
+              y1={planetY} 
+              x2={endX} 
+              y2={endY} 
+              stroke={color}
+              strokeWidth={2}
+            />
+            <polygon 
+              points={`${endX},${endY} 
+                      ${endX - directionX * 8 - directionY * 4},${endY - directionY * 8 + directionX * 4} 
+                      ${endX - directionX * 8 + directionY * 4},${endY - directionY * 8 - directionX * 4}`} 
+              fill={color} 
+            />
+          </svg>
+        );
+      })}
+
       {/* Velocity vectors */}
       {velocityVectors.map((vector, index) => {
         const planet = items.find(item => item.id === vector.planetId);
@@ -0,0 +1,145 @@
+import React from 'react';
+import { Divergence, Vector2 } from '../physics';
+import { BaseItem, isBodyItem } from '../types/canvas';
+
+interface ForkPanelProps {
+  forkItems: BaseItem[];
+  divergence: Divergence | null; // Null until the first snapshot of the fork
+  isPlaying: boolean;
+  onUpdateBody: (bodyId: string, changes: { mass?: number; velocity?: Vector2 }) => void;
+  onEnd: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '56px',
+  fontSize: '11px',
+  fontFamily: 'monospace',
+  background: 'rgba(255, 255, 255, 0.1)',
+  color: 'white',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '3px',
+  padding: '1px 3px'
+};
+
+const formatDistance = (value: number): string => {
+  return Math.abs(value) >= 1e5 ? value.toExponential(2) : value.toFixed(1);
+};
+
+/**
+ * The what-if fork: how far it has drifted from the original run, and the
+ * mass and velocity of each forked body for changing the fork's course
+ */
+const ForkPanel: React.FC<ForkPanelProps> = ({ forkItems, divergence, isPlaying, onUpdateBody, onEnd }) => {
+  const bodies = forkItems.filter(isBodyItem);
+  const furthest = divergence?.bodyId ? bodies.find(item => item.id === divergence.bodyId) : undefined;
+
+  // Numeric field that reports a change only when it parses
+  const numberInput = (value: number, step: number, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      step={step}
+      value={Number(value.toFixed(2))}
+      onChange={(e) => {
+        const parsed = Number(e.target.value);
+        if (e.target.value !== '' && !Number.isNaN(parsed)) onChange(parsed);
+      }}
+      style={inputStyle}
+    />
+  );
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 70,
+        right: 20,
+        backgroundColor: 'rgba(20, 20, 30, 0.9)',
+        border: '2px dashed #B388FF',
+        borderRadius: '8px',
+        padding: '12px',
+        minWidth: '260px',
+        maxHeight: '60vh',
+        overflowY: 'auto',
+        color: 'white',
+        fontSize: '12px',
+        zIndex: 1000,
+        boxShadow: '0 4px 20px rgba(0, 0, 0, 0.5)'
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div style={{
+        borderBottom: '1px solid rgba(255, 255, 255, 0.2)',
+        paddingBottom: '8px',
+        marginBottom: '8px',
+        fontWeight: 'bold',
+        fontSize: '14px'
+      }}>
+        What-If Fork
+      </div>
+
+      <table style={{ width: '100%', borderSpacing: '0 2px', fontFamily: 'monospace' }}>
+        <tbody>
+          <tr>
+            <td style={{ opacity: 0.7, fontFamily: 'sans-serif' }}>RMS divergence:</td>
+            <td style={{ textAlign: 'right' }}>{divergence ? formatDistance(divergence.rms) : '—'}</td>
+          </tr>
+          <tr>
+            <td style={{ opacity: 0.7, fontFamily: 'sans-serif' }}>Furthest:</td>
+            <td style={{ textAlign: 'right' }}>
+              {divergence && furthest ? `${furthest.data.name} ${formatDistance(divergence.max)}` : '—'}
+            </td>
+          </tr>
+          {divergence && divergence.unmatched > 0 && (
+            <tr>
+              <td style={{ opacity: 0.7, fontFamily: 'sans-serif' }}>In one run only:</td>
+              <td style={{ textAlign: 'right', color: '#FF9800' }}>{divergence.unmatched}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <table style={{ width: '100%', borderSpacing: '0 4px', marginTop: '8px' }}>
+        <tbody>
+          <tr style={{ opacity: 0.7 }}>
+            <td>Body</td>
+            <td>Mass</td>
+            <td>vx</td>
+            <td>vy</td>
+          </tr>
+          {bodies.map(item => (
+            <tr key={item.id}>
+              <td style={{ color: item.data.color }}>{item.data.name}</td>
+              <td>{numberInput(item.data.mass, 1, (mass) => mass > 0 && onUpdateBody(item.id, { mass }))}</td>
+              <td>{numberInput(item.data.velocity.x, 0.5, (x) => onUpdateBody(item.id, { velocity: { ...item.data.velocity, x } }))}</td>
+              <td>{numberInput(item.data.velocity.y, 0.5, (y) => onUpdateBody(item.id, { velocity: { ...item.data.velocity, y } }))}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {isPlaying && (
+        <div style={{ opacity: 0.7, marginTop: '4px' }}>Pause to edit velocities at a fixed moment</div>
+      )}
+
+      <div style={{ marginTop: '10px', display: 'flex', justifyContent: 'flex-end' }}>
+        <button
+          onClick={onEnd}
+          style={{
+            backgroundColor: '#444',
+            color: 'white',
+            border: 'none',
+            padding: '4px 8px',
+            borderRadius: '3px',
+            fontSize: '12px',
+            cursor: 'pointer'
+          }}
+        >
+          End Fork
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ForkPanel;
@@ -0,0 +1,228 @@
+import React from 'react';
+import { InterceptPlan, PorkchopPlot } from '../physics';
+import { BaseItem } from '../types/canvas';
+
+interface InterceptPlannerPanelProps {
+  departure: BaseItem;
+  arrival: BaseItem | null; // Null while the user is still picking one
+  porkchop: PorkchopPlot | null;
+  plan: InterceptPlan | null; // Trajectory for the selected departure and flight time
+  departureTime: number;
+  timeOfFlight: number;
+  simulationTime: number;
+  onSelect: (departureTime: number, timeOfFlight: number) => void;
+  onApply: () => void;
+  onLaunchProbe: () => void;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+const CELL_SIZE = 12;
+
+const buttonStyle = (background: string): React.CSSProperties => ({
+  backgroundColor: background,
+  color: 'white',
+  border: 'none',
+  padding: '4px 8px',
+  borderRadius: '3px',
+  fontSize: '12px',
+  cursor: 'pointer'
+});
+
+// Green for the cheapest cells through red for the most expensive, on a log scale
+const cellColor = (deltaV: number | null, min: number, max: number): string => {
+  if (deltaV === null) return '#333';
+  const t = max > min ? Math.log(deltaV / min) / Math.log(max / min) : 0;
+  return `hsl(${Math.round(120 * (1 - t))}, 70%, 45%)`;
+};
+
+/**
+ * Grid of departure delta-v, departure time across and flight time down.
+ * Clicking a cell picks that launch window.
+ */
+const Porkchop: React.FC<{
+  porkchop: PorkchopPlot;
+  departureTime: number;
+  timeOfFlight: number;
+  onSelect: (departureTime: number, timeOfFlight: number) => void;
+}> = ({ porkchop, departureTime, timeOfFlight, onSelect }) => {
+  const { departureTimes, flightTimes, deltaV } = porkchop;
+  const values = deltaV.flat().filter((value): value is number => value !== null);
+  const min = Math.min(...values);
+  // Clip the scale so one extreme cell doesn't wash out the rest
+  const max = Math.min(Math.max(...values), min * 20);
+
+  // Cell nearest to the current selection
+  const nearest = (samples: number[], value: number) => samples.reduce(
+    (best, sample, index) => Math.abs(sample - value) < Math.abs(samples[best] - value) ? index : best, 0
+  );
+  const selectedColumn = nearest(departureTimes, departureTime);
+  const selectedRow = nearest(flightTimes, timeOfFlight);
+
+  return (
+    <svg
+      width={departureTimes.length * CELL_SIZE}
+      height={flightTimes.length * CELL_SIZE}
+      style={{ display: 'block', cursor: 'crosshair' }}
+    >
+      {deltaV.map((column, columnIndex) => column.map((value, rowIndex) => (
+        <rect
+          key={`${columnIndex}-${rowIndex}`}
+          x={columnIndex * CELL_SIZE}
+          y={rowIndex * CELL_SIZE}
+          width={CELL_SIZE}
+          height={CELL_SIZE}
+          fill={cellColor(value === null ? null : Math.min(value, max), min, max)}
+          onClick={() => onSelect(departureTimes[columnIndex], flightTimes[rowIndex])}
+        >
+          <title>
+            {value === null ? 'No solution' : `Δv ${value.toFixed(2)}`}
+            {` · depart ${departureTimes[columnIndex].toFixed(1)}s · flight ${flightTimes[rowIndex].toFixed(1)}s`}
+          </title>
+        </rect>
+      )))}
+      <rect
+        x={selectedColumn * CELL_SIZE}
+        y={selectedRow * CELL_SIZE}
+        width={CELL_SIZE}
+        height={CELL_SIZE}
+        fill="none"
+        stroke="white"
+        strokeWidth={2}
+        pointerEvents="none"
+      />
+    </svg>
+  );
+};
+
+/**
+ * Lambert targeting from one body to another: a porkchop plot to choose the
+ * launch window, the resulting burn, and buttons to fly it
+ */
+const InterceptPlannerPanel: React.FC<InterceptPlannerPanelProps> = ({
+  departure,
+  arrival,
+  porkchop,
+  plan,
+  departureTime,
+  timeOfFlight,
+  simulationTime,
+  onSelect,
+  onApply,
+  onLaunchProbe,
+  onRefresh,
+  onClose
+}) => {
+  const departed = departureTime < simulationTime;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: departure.x + departure.width + 20,
+        top: departure.y,
+        backgroundColor: 'rgba(20, 20, 30, 0.9)',
+        border: '2px solid #FF4081',
+        borderRadius: '8px',
+        padding: '12px',
+        minWidth: '240px',
+        color: 'white',
+        fontSize: '12px',
+        zIndex: 200,
+        boxShadow: '0 4px 20px rgba(0, 0, 0, 0.5)',
+        backdropFilter: 'blur(5px)'
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div style={{
+        borderBottom: '1px solid rgba(255, 255, 255, 0.2)',
+        paddingBottom: '8px',
+        marginBottom: '8px',
+        fontWeight: 'bold',
+        fontSize: '14px'
+      }}>
+        Target: {departure.data.name} → {arrival ? arrival.data.name : '?'}
+      </div>
+
+      {!arrival && <div style={{ opacity: 0.7 }}>Click the body to intercept…</div>}
+
+      {arrival && !porkchop && (
+        <div style={{ opacity: 0.7 }}>No intercept: both bodies need to orbit the same primary</div>
+      )}
+
+      {porkchop && (
+        <>
+          <div style={{ opacity: 0.7, marginBottom: '4px' }}>Departure time → · Flight time ↓</div>
+          <Porkchop
+            porkchop={porkchop}
+            departureTime={departureTime}
+            timeOfFlight={timeOfFlight}
+            onSelect={onSelect}
+          />
+
+          <table style={{ width: '100%', borderSpacing: '0 2px', marginTop: '6px', fontFamily: 'monospace' }}>
+            <tbody>
+              <tr>
+                <td style={{ opacity: 0.7, fontFamily: 'sans-serif' }}>Depart at:</td>
+                <td style={{ textAlign: 'right' }}>{departureTime.toFixed(1)}s</td>
+              </tr>
+              <tr>
+                <td style={{ opacity: 0.7, fontFamily: 'sans-serif' }}>Flight time:</td>
+                <td style={{ textAlign: 'right' }}>{timeOfFlight.toFixed(1)}s</td>
+              </tr>
+              {plan && (
+                <>
+                  <tr>
+                    <td style={{ opacity: 0.7, fontFamily: 'sans-serif' }}>Departure v:</td>
+                    <td style={{ textAlign: 'right' }}>
+                      x: {plan.departureVelocity.x.toFixed(2)}, y: {plan.departureVelocity.y.toFixed(2)}
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style={{ opacity: 0.7, fontFamily: 'sans-serif' }}>Δv:</td>
+                    <td style={{ textAlign: 'right' }}>
+                      {plan.deltaV.toFixed(2)} ({plan.prograde.toFixed(1)} pro, {plan.radial.toFixed(1)} rad)
+                    </td>
+                  </tr>
+                </>
+              )}
+            </tbody>
+          </table>
+
+          {departed && (
+            <div style={{ color: '#FF9800', marginTop: '4px' }}>This window has passed, refresh the grid</div>
+          )}
+        </>
+      )}
+
+      <div style={{
+        marginTop: '10px',
+        display: 'flex',
+        justifyContent: 'flex-end',
+        gap: '6px'
+      }}>
+        {porkchop && (
+          <button onClick={onRefresh} style={buttonStyle('#607D8B')}>
+            Refresh
+          </button>
+        )}
+        {plan && !departed && (
+          <>
+            <button onClick={onApply} style={buttonStyle('#009688')}>
+              Apply to {departure.data.name}
+            </button>
+            <button onClick={onLaunchProbe} style={buttonStyle('#00838F')}>
+              Launch Probe
+            </button>
+          </>
+        )}
+        <button onClick={onClose} style={buttonStyle('#444')}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InterceptPlannerPanel;
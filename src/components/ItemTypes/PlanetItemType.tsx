@@ -1,5 +1,5 @@
 import React from 'react';
-import { BaseItem, ItemTypeConfig } from '../Canvas';
+import { BaseItem, ItemTypeConfig } from '../../types/canvas';
 
 // Planet-specific data interface
 export interface PlanetData {
@@ -9,6 +9,9 @@ export interface PlanetData {
   mass: number;  // Mass affects gravitational pull
   velocity?: { x: number; y: number }; // Optional initial velocity
   isOrbital: boolean; // Whether this planet follows orbital rules
+  charge?: number; // Electric charge for the Coulomb force law
+  isFixed?: boolean; // Pinned in place, like a central star
+  primaryId?: string; // Id of the body this planet orbits
 }
 
 // Planet-specific item interface
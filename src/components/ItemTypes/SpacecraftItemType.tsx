@@ -0,0 +1,75 @@
+import { ManeuverNode } from '../../physics';
+import { BaseItem, ItemTypeConfig } from '../../types/canvas';
+
+// Spacecraft-specific data interface
+export interface SpacecraftData {
+  name: string;
+  color: string;
+  radius: number;
+  mass: number; // Negligible, so the craft doesn't disturb the planets
+  velocity?: { x: number; y: number };
+  isOrbital: boolean; // Start on a circular orbit around the primary
+  primaryId?: string; // Id of the body this craft orbits; burns are relative to it
+  maneuvers: ManeuverNode[]; // Scheduled burns, removed once executed
+}
+
+// Spacecraft-specific item interface
+export interface SpacecraftItem extends BaseItem {
+  data: SpacecraftData;
+}
+
+// Spacecraft item type configuration
+export const SpacecraftItemType: ItemTypeConfig = {
+  defaultWidth: 20,
+  defaultHeight: 20,
+  defaultData: {
+    name: 'Spacecraft',
+    color: '#E0E0E0',
+    radius: 10,
+    mass: 0.001, // Small enough not to pull on anything, but not zero (a = F/m)
+    velocity: { x: 0, y: 0 }, // Initial velocity will be set in Canvas component
+    isOrbital: true,
+    maneuvers: []
+  },
+  render: (item: BaseItem) => {
+    const spacecraftItem = item as SpacecraftItem;
+    const { velocity, color, name, maneuvers } = spacecraftItem.data;
+    // Point the hull along the direction of travel
+    const heading = velocity ? Math.atan2(velocity.y, velocity.x) * 180 / Math.PI : 0;
+
+    return (
+      <div style={{
+        width: '100%',
+        height: '100%',
+        position: 'relative'
+      }}>
+        <div style={{
+          width: '100%',
+          height: '100%',
+          backgroundColor: color,
+          clipPath: 'polygon(100% 50%, 0% 0%, 25% 50%, 0% 100%)',
+          transform: `rotate(${heading}deg)`
+        }} />
+        <div style={{
+          position: 'absolute',
+          top: '100%',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          marginTop: '4px',
+          color: '#fff',
+          whiteSpace: 'nowrap',
+          fontSize: '11px',
+          fontWeight: 'bold',
+          textShadow: '0 0 5px rgba(0,0,0,0.5)'
+        }}>
+          {name}
+          {maneuvers.length > 0 && (
+            <span style={{ fontSize: '10px', display: 'block', opacity: 0.7, textAlign: 'center' }}>
+              {maneuvers.length} burn{maneuvers.length === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  }
+};
@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { BaseItem, CANVAS_HEIGHT, CANVAS_WIDTH } from './Canvas';
+import { BaseItem, CANVAS_HEIGHT, CANVAS_WIDTH } from '../types/canvas';
 import OrbitPathVisualization, { OrbitPoint, OrbitPath } from './OrbitPathVisualization';
 import OrbitTrailRenderer from './OrbitTrailRenderer';
 
@@ -21,8 +21,8 @@ const OrbitLogger: React.FC<OrbitLoggerProps> = ({
 
   // Effect to initialize orbit paths for all planets
   useEffect(() => {
-    // Only consider planets (not the central body at index 0)
-    const planetItems = items.filter((item, index) => index > 0);
+    // Only consider planets that can move (not fixed bodies like the Sun)
+    const planetItems = items.filter(item => !item.data.isFixed);
     
     // Initialize orbit paths with empty points arrays
     const initialPaths = planetItems.map(planet => ({
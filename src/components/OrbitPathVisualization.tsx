@@ -1,5 +1,6 @@
 import React from 'react';
-import { BaseItem } from './Canvas';
+import { Apsides } from '../physics';
+import { BaseItem } from '../types/canvas';
 
 export interface OrbitPoint {
   x: number;
@@ -10,6 +11,7 @@ export interface OrbitPath {
   planetId: string;
   points: OrbitPoint[];
   color: string;
+  apsides?: Apsides | null; // Periapsis and apoapsis markers, if the orbit has them
 }
 
 interface OrbitPathVisualizationProps {
@@ -20,6 +22,14 @@ interface OrbitPathVisualizationProps {
   showOrbits: boolean;
 }
 
+// Labelled dot marking periapsis or apoapsis
+const ApsisMarker: React.FC<{ position: OrbitPoint; label: string; color: string }> = ({ position, label, color }) => (
+  <g>
+    <circle cx={position.x} cy={position.y} r={4} fill={color} stroke="white" strokeWidth={1} />
+    <text x={position.x + 7} y={position.y - 7} fill="white" fontSize={11}>{label}</text>
+  </g>
+);
+
 const OrbitPathVisualization: React.FC<OrbitPathVisualizationProps> = ({
   canvasWidth,
   canvasHeight,
@@ -31,8 +41,8 @@ const OrbitPathVisualization: React.FC<OrbitPathVisualizationProps> = ({
 
   return (
     <>
-      {orbitPaths.map((path) => {
-        // Find the corresponding planet to get its color
+      {orbitPaths.map((path, index) => {
+        // Skip paths of bodies that have left the scene
         const planet = items.find(item => item.id === path.planetId);
         if (!planet) return null;
         
@@ -49,7 +59,7 @@ const OrbitPathVisualization: React.FC<OrbitPathVisualizationProps> = ({
         }, '');
         
         return (
-          <svg key={`orbit-${path.planetId}`} style={{
+          <svg key={`orbit-${path.planetId}-${index}`} style={{
             position: 'absolute',
             left: 0,
             top: 0,
@@ -60,12 +70,18 @@ const OrbitPathVisualization: React.FC<OrbitPathVisualizationProps> = ({
           }}>
             <path
               d={pathData}
-              stroke={planet.data.color}
+              stroke={path.color}
               strokeWidth={3}
               fill="none"
               strokeOpacity={0.6}
               strokeDasharray="5,5"
             />
+            {path.apsides && (
+              <ApsisMarker position={path.apsides.periapsis} label="Pe" color={path.color} />
+            )}
+            {path.apsides?.apoapsis && (
+              <ApsisMarker position={path.apsides.apoapsis} label="Ap" color={path.color} />
+            )}
           </svg>
         );
       })}
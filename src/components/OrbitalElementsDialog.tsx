@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Body, OrbitPlacement, stateFromElements } from '../physics';
+import { useSimulationStore } from '../store/simulationStore';
+
+interface OrbitalElementsDialogProps {
+  bodies: Body[]; // Candidate primaries
+  bodyNames: Record<string, string>; // Display names by body id
+  itemTypes: { type: string; label: string }[]; // What kind of item to create
+  defaultPrimaryId: string | undefined;
+  onCreate: (primaryId: string, placement: OrbitPlacement, itemType: string, name: string) => void;
+  onClose: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px',
+  backgroundColor: '#2d2d3f',
+  border: 'none',
+  borderRadius: '4px',
+  color: 'white',
+  fontSize: '14px',
+  outline: 'none',
+  boxSizing: 'border-box'
+};
+
+const buttonStyle = (background: string): React.CSSProperties => ({
+  backgroundColor: background,
+  color: 'white',
+  border: 'none',
+  padding: '8px 14px',
+  borderRadius: '4px',
+  fontSize: '14px',
+  cursor: 'pointer'
+});
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Modal form for placing a body on an exact orbit: primary, semi-major axis,
+ * eccentricity, argument of periapsis, true anomaly and direction of travel
+ */
+const OrbitalElementsDialog: React.FC<OrbitalElementsDialogProps> = ({
+  bodies,
+  bodyNames,
+  itemTypes,
+  defaultPrimaryId,
+  onCreate,
+  onClose
+}) => {
+  const { G } = useSimulationStore();
+  const [primaryId, setPrimaryId] = useState(defaultPrimaryId ?? bodies[0]?.id ?? '');
+  const [itemType, setItemType] = useState(itemTypes[0]?.type ?? 'planet');
+  const [name, setName] = useState('');
+  const [semiMajorAxis, setSemiMajorAxis] = useState(400);
+  const [eccentricity, setEccentricity] = useState(0);
+  const [argumentOfPeriapsis, setArgumentOfPeriapsis] = useState(0); // Degrees
+  const [trueAnomaly, setTrueAnomaly] = useState(0); // Degrees
+  const [direction, setDirection] = useState<1 | -1>(1);
+
+  const primary = bodies.find(body => body.id === primaryId);
+  const placement: OrbitPlacement = {
+    semiMajorAxis,
+    eccentricity,
+    argumentOfPeriapsis: toRadians(argumentOfPeriapsis),
+    trueAnomaly: toRadians(trueAnomaly),
+    direction
+  };
+
+  // Explain why the elements can't be used, if they can't
+  let error: string | null = null;
+  if (!primary) error = 'Choose a primary';
+  else if (!(semiMajorAxis > 0)) error = 'Semi-major axis must be positive';
+  else if (!(eccentricity >= 0)) error = 'Eccentricity must not be negative';
+  else if (eccentricity === 1) error = 'Parabolic orbits (e = 1) are not supported';
+  else if (!stateFromElements(placement, primary, G)) error = 'True anomaly lies beyond the hyperbola\'s asymptotes';
+
+  // Numeric field that keeps the last valid number while typing
+  const numberField = (label: string, value: number, onChange: (value: number) => void, step: number) => (
+    <label style={{ display: 'block', marginBottom: '8px' }}>
+      <span style={{ opacity: 0.7, fontSize: '12px' }}>{label}</span>
+      <input
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const parsed = Number(e.target.value);
+          if (e.target.value !== '' && !Number.isNaN(parsed)) onChange(parsed);
+        }}
+        style={inputStyle}
+      />
+    </label>
+  );
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 9999,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          width: '360px',
+          maxWidth: '90%',
+          backgroundColor: '#1e1e2e',
+          borderRadius: '12px',
+          padding: '16px',
+          color: 'white',
+          boxShadow: '0 10px 25px rgba(0, 0, 0, 0.4)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: 'bold', fontSize: '16px', marginBottom: '12px' }}>
+          Create Body from Orbital Elements
+        </div>
+
+        <label style={{ display: 'block', marginBottom: '8px' }}>
+          <span style={{ opacity: 0.7, fontSize: '12px' }}>Primary</span>
+          <select value={primaryId} onChange={(e) => setPrimaryId(e.target.value)} style={inputStyle}>
+            {bodies.map(body => (
+              <option key={body.id} value={body.id}>{bodyNames[body.id] ?? body.id}</option>
+            ))}
+          </select>
+        </label>
+
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <label style={{ display: 'block', marginBottom: '8px', flex: 1 }}>
+            <span style={{ opacity: 0.7, fontSize: '12px' }}>Type</span>
+            <select value={itemType} onChange={(e) => setItemType(e.target.value)} style={inputStyle}>
+              {itemTypes.map(option => (
+                <option key={option.type} value={option.type}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label style={{ display: 'block', marginBottom: '8px', flex: 1 }}>
+            <span style={{ opacity: 0.7, fontSize: '12px' }}>Name</span>
+            <input value={name} placeholder="Default" onChange={(e) => setName(e.target.value)} style={inputStyle} />
+          </label>
+        </div>
+
+        {numberField('Semi-major axis a', semiMajorAxis, setSemiMajorAxis, 10)}
+        {numberField('Eccentricity e', eccentricity, setEccentricity, 0.05)}
+        {numberField('Argument of periapsis ω (°)', argumentOfPeriapsis, setArgumentOfPeriapsis, 5)}
+        {numberField('True anomaly ν (°)', trueAnomaly, setTrueAnomaly, 5)}
+
+        <label style={{ display: 'block', marginBottom: '8px' }}>
+          <span style={{ opacity: 0.7, fontSize: '12px' }}>Direction</span>
+          <select
+            value={direction}
+            onChange={(e) => setDirection(Number(e.target.value) === -1 ? -1 : 1)}
+            style={inputStyle}
+          >
+            <option value={1}>Prograde (counter-clockwise)</option>
+            <option value={-1}>Retrograde (clockwise)</option>
+          </select>
+        </label>
+
+        {error && <div style={{ color: '#FF9800', fontSize: '12px', marginBottom: '8px' }}>{error}</div>}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '8px' }}>
+          <button onClick={onClose} style={buttonStyle('#444')}>
+            Cancel
+          </button>
+          <button
+            disabled={!!error}
+            onClick={() => onCreate(primaryId, placement, itemType, name.trim())}
+            style={{ ...buttonStyle('#009688'), opacity: error ? 0.5 : 1, cursor: error ? 'not-allowed' : 'pointer' }}
+          >
+            Create
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrbitalElementsDialog;
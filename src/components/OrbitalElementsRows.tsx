@@ -0,0 +1,60 @@
+import React from 'react';
+import { Body, orbitalElements } from '../physics';
+import { useSimulationStore } from '../store/simulationStore';
+
+interface OrbitalElementsRowsProps {
+  body: Body;
+  primary: Body | undefined;
+  primaryName?: string; // Shown as the body's parent
+}
+
+const formatDistance = (value: number | null): string => {
+  if (value === null || !Number.isFinite(value)) return '∞';
+  return Math.abs(value) >= 1e5 ? value.toExponential(2) : value.toFixed(1);
+};
+
+/**
+ * Table rows with the Keplerian elements of `body` around its primary, for
+ * the property popovers. Renders nothing for bodies without a primary.
+ */
+export const OrbitalElementsRows: React.FC<OrbitalElementsRowsProps> = ({ body, primary, primaryName }) => {
+  const { G } = useSimulationStore();
+  if (!primary || body.isFixed) return null;
+
+  const elements = orbitalElements(body, primary, G);
+  if (!elements) return null;
+
+  const degrees = ((elements.argumentOfPeriapsis * 180 / Math.PI) + 360) % 360;
+  const rows: [string, string][] = [
+    ['Semi-major axis', formatDistance(elements.semiMajorAxis)],
+    ['Eccentricity', elements.eccentricity.toFixed(3)],
+    ['Arg. periapsis', `${degrees.toFixed(1)}°`],
+    ['Periapsis', formatDistance(elements.periapsis)],
+    ['Apoapsis', formatDistance(elements.apoapsis)],
+    ['Period', elements.period === null ? '—' : `${elements.period.toFixed(1)}s`],
+    ['Energy', elements.specificEnergy.toFixed(1)]
+  ];
+
+  return (
+    <>
+      {primaryName && (
+        <tr>
+          <td style={{ opacity: 0.7 }}>Parent:</td>
+          <td style={{ textAlign: 'right' }}>{primaryName}</td>
+        </tr>
+      )}
+      <tr>
+        <td style={{ opacity: 0.7 }}>Orbit:</td>
+        <td style={{ textAlign: 'right', color: elements.bound ? '#4CAF50' : '#FF9800', fontWeight: 'bold' }}>
+          {elements.bound ? 'Bound' : 'Escape'}
+        </td>
+      </tr>
+      {rows.map(([label, value]) => (
+        <tr key={label}>
+          <td style={{ opacity: 0.7 }}>{label}:</td>
+          <td style={{ textAlign: 'right', fontFamily: 'monospace' }}>{value}</td>
+        </tr>
+      ))}
+    </>
+  );
+};
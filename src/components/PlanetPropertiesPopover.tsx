@@ -1,22 +1,55 @@
 import React from 'react';
-import { BaseItem } from './Canvas';
+import { Body, requiredBodyProperties } from '../physics';
+import { useSimulationStore } from '../store/simulationStore';
+import { BaseItem } from '../types/canvas';
+import { OrbitalElementsRows } from './OrbitalElementsRows';
+
+// Charge added or removed per click
+const CHARGE_STEP = 1;
 
 interface PlanetPropertiesPopoverProps {
   planet: BaseItem;
+  body: Body; // The planet as the physics sees it
+  primary: Body | undefined; // Body it orbits, for the orbital elements
+  primaryName?: string; // Display name of the primary
   onClose: () => void;
   onToggleOrbitalMode: (planetId: string) => void;
+  onToggleFixed: (planetId: string) => void;
+  onChangeCharge: (planetId: string, charge: number) => void;
 }
 
 const PlanetPropertiesPopover: React.FC<PlanetPropertiesPopoverProps> = ({
   planet,
+  body,
+  primary,
+  primaryName,
   onClose,
-  onToggleOrbitalMode
+  onToggleOrbitalMode,
+  onToggleFixed,
+  onChangeCharge
 }) => {
+  const { forceLaws } = useSimulationStore();
+  // Only show the properties the enabled force laws actually read
+  const showCharge = requiredBodyProperties(forceLaws).includes('charge');
+  const charge = planet.data.charge ?? 0;
+
+  const chargeButtonStyle: React.CSSProperties = {
+    backgroundColor: '#607D8B',
+    color: 'white',
+    border: 'none',
+    width: '18px',
+    borderRadius: '3px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    padding: 0
+  };
+
   return (
     <div 
       style={{
         position: 'absolute',
-        top: -150,
+        bottom: '100%',
+        marginBottom: '30px',
         left: planet.width / 2,
         transform: 'translateX(-50%)',
         backgroundColor: 'rgba(20, 20, 30, 0.9)',
@@ -81,6 +114,21 @@ const PlanetPropertiesPopover: React.FC<PlanetPropertiesPopoverProps> = ({
             <td style={{ opacity: 0.7 }}>Type:</td>
             <td style={{ textAlign: 'right' }}>{planet.data.isOrbital ? 'Orbital' : 'Random'}</td>
           </tr>
+          {showCharge && (
+            <tr>
+              <td style={{ opacity: 0.7 }}>Charge:</td>
+              <td style={{ textAlign: 'right', fontFamily: 'monospace' }}>
+                <button style={chargeButtonStyle} onClick={() => onChangeCharge(planet.id, charge - CHARGE_STEP)}>−</button>
+                <span style={{ margin: '0 6px' }}>{charge}</span>
+                <button style={chargeButtonStyle} onClick={() => onChangeCharge(planet.id, charge + CHARGE_STEP)}>+</button>
+              </td>
+            </tr>
+          )}
+          <tr>
+            <td style={{ opacity: 0.7 }}>Motion:</td>
+            <td style={{ textAlign: 'right' }}>{planet.data.isFixed ? 'Fixed' : 'Free'}</td>
+          </tr>
+          <OrbitalElementsRows body={body} primary={primary} primaryName={primaryName} />
         </tbody>
       </table>
       
@@ -107,6 +155,23 @@ const PlanetPropertiesPopover: React.FC<PlanetPropertiesPopoverProps> = ({
         >
           {planet.data.isOrbital ? 'Switch to Random' : 'Switch to Orbital'}
         </button>
+        <button 
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleFixed(planet.id);
+          }}
+          style={{
+            backgroundColor: planet.data.isFixed ? '#FF9800' : '#607D8B',
+            color: 'white',
+            border: 'none',
+            padding: '4px 8px',
+            borderRadius: '3px',
+            fontSize: '12px',
+            cursor: 'pointer'
+          }}
+        >
+          {planet.data.isFixed ? 'Unpin' : 'Pin'}
+        </button>
         <button 
           onClick={(e) => {
             e.stopPropagation();
@@ -0,0 +1,45 @@
+import React from 'react';
+import { useSimulationStore } from '../store/simulationStore';
+
+/**
+ * Banner explaining why a scene file or the autosave could not be loaded,
+ * shown until dismissed or until a scene loads successfully
+ */
+export const SceneErrorNotice: React.FC = () => {
+  const { sceneError, setSceneError } = useSimulationStore();
+  if (!sceneError) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 20,
+      left: '50%',
+      transform: 'translateX(-50%)',
+      backgroundColor: 'rgba(183, 28, 28, 0.95)',
+      color: 'white',
+      padding: '10px 14px',
+      borderRadius: '6px',
+      boxShadow: '0 2px 10px rgba(0,0,0,0.3)',
+      zIndex: 2000,
+      fontSize: '13px',
+      maxWidth: '600px',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px'
+    }}>
+      <span>⚠ {sceneError}</span>
+      <button
+        onClick={() => setSceneError(null)}
+        style={{
+          background: 'none',
+          border: 'none',
+          color: 'white',
+          fontSize: '16px',
+          cursor: 'pointer'
+        }}
+      >
+        ×
+      </button>
+    </div>
+  );
+};
@@ -1,6 +1,16 @@
 import React from 'react';
+import { CollisionMode, FORCE_LAWS, ForceLawType, IntegratorType, INTEGRATORS } from '../physics';
 import { useSimulationStore } from '../store/simulationStore';
-import { calculateCenteredTransform } from './Canvas';
+import { calculateCenteredTransform } from '../types/canvas';
+import { EnvironmentControls } from './EnvironmentControls';
+import { TimelineControls } from './TimelineControls';
+
+// Collision modes in the order the button cycles through them
+const COLLISION_MODES: { mode: CollisionMode; label: string; color: string }[] = [
+  { mode: 'merge', label: 'Collisions: Merge', color: '#FF5722' },
+  { mode: 'bounce', label: 'Collisions: Bounce', color: '#03A9F4' },
+  { mode: 'pass-through', label: 'Collisions: Off', color: '#607D8B' }
+];
 
 interface SimulationControlsProps {
   onCenterView?: () => void;
@@ -13,16 +23,43 @@ export const SimulationControls: React.FC<SimulationControlsProps> = ({ onCenter
     showOrbits,
     showTrails,
     planetaryForces,
+    barycentric,
+    forceSolver,
+    theta,
+    softening,
+    showQuadtree,
+    collisionMode,
+    restitution,
     timeScale,
+    integrator,
+    simulationTime,
+    adaptiveTimeStep,
+    substeps,
+    forceLaws,
+    forceLawParameters,
     fps, 
     togglePlaying, 
     toggleShowForces,
     toggleShowOrbits,
     toggleShowTrails,
     togglePlanetaryForces,
-    setTimeScale
+    toggleBarycentric,
+    setForceSolver,
+    setTheta,
+    setSoftening,
+    toggleShowQuadtree,
+    setCollisionMode,
+    setRestitution,
+    setTimeScale,
+    setIntegrator,
+    toggleAdaptiveTimeStep,
+    toggleForceLaw,
+    setForceLawParameters
   } = useSimulationStore();
 
+  const collisionIndex = COLLISION_MODES.findIndex(option => option.mode === collisionMode);
+  const currentCollisionMode = COLLISION_MODES[collisionIndex];
+
   return (
     <div style={{ 
       position: 'fixed', 
@@ -111,7 +148,109 @@ export const SimulationControls: React.FC<SimulationControlsProps> = ({ onCenter
       >
         {planetaryForces ? 'Disable P-P Forces' : 'Enable P-P Forces'}
       </button>
+
+      <button 
+        onClick={toggleBarycentric}
+        style={{
+          background: barycentric ? '#FF9800' : '#607D8B',
+          color: 'white',
+          border: 'none',
+          padding: '5px 10px',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '14px'
+        }}
+      >
+        {barycentric ? 'Barycentric' : 'Fixed Stars'}
+      </button>
+      
+      <button 
+        onClick={() => setForceSolver(forceSolver === 'direct' ? 'barnes-hut' : 'direct')}
+        style={{
+          background: forceSolver === 'barnes-hut' ? '#009688' : '#607D8B',
+          color: 'white',
+          border: 'none',
+          padding: '5px 10px',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '14px'
+        }}
+      >
+        {forceSolver === 'barnes-hut' ? 'Barnes-Hut' : 'Direct Sum'}
+      </button>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }} title="Plummer softening length">
+        <span style={{ color: 'white', fontSize: '14px' }}>ε:</span>
+        <input
+          type="range"
+          min={0}
+          max={50}
+          step={1}
+          value={softening}
+          onChange={(e) => setSoftening(Number(e.target.value))}
+        />
+        <span style={{ color: 'white', fontSize: '12px', fontFamily: 'monospace' }}>{softening}</span>
+      </div>
+
+      {forceSolver === 'barnes-hut' && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+          <span style={{ color: 'white', fontSize: '14px' }}>θ:</span>
+          <input
+            type="range"
+            min={0}
+            max={1.5}
+            step={0.05}
+            value={theta}
+            onChange={(e) => setTheta(Number(e.target.value))}
+          />
+          <span style={{ color: 'white', fontSize: '12px', fontFamily: 'monospace' }}>{theta.toFixed(2)}</span>
+          <button 
+            onClick={toggleShowQuadtree}
+            style={{
+              background: showQuadtree ? '#009688' : '#607D8B',
+              color: 'white',
+              border: 'none',
+              padding: '3px 6px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            {showQuadtree ? 'Hide Tree' : 'Show Tree'}
+          </button>
+        </div>
+      )}
       
+      <button 
+        onClick={() => setCollisionMode(COLLISION_MODES[(collisionIndex + 1) % COLLISION_MODES.length].mode)}
+        style={{
+          background: currentCollisionMode.color,
+          color: 'white',
+          border: 'none',
+          padding: '5px 10px',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '14px'
+        }}
+      >
+        {currentCollisionMode.label}
+      </button>
+
+      {collisionMode === 'bounce' && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+          <span style={{ color: 'white', fontSize: '14px' }}>e:</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={restitution}
+            onChange={(e) => setRestitution(Number(e.target.value))}
+          />
+          <span style={{ color: 'white', fontSize: '12px', fontFamily: 'monospace' }}>{restitution.toFixed(2)}</span>
+        </div>
+      )}
+
       <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
         <span style={{ color: 'white', fontSize: '14px' }}>Speed:</span>
         <button
@@ -186,6 +325,111 @@ export const SimulationControls: React.FC<SimulationControlsProps> = ({ onCenter
         </button>
       </div>
 
+      <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+        <span style={{ color: 'white', fontSize: '14px' }}>Integrator:</span>
+        {(Object.keys(INTEGRATORS) as IntegratorType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => setIntegrator(type)}
+            style={{
+              background: integrator === type ? '#9C27B0' : '#607D8B',
+              color: 'white',
+              border: 'none',
+              padding: '3px 6px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            {INTEGRATORS[type].label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+        <span style={{ color: 'white', fontSize: '14px' }}>Forces:</span>
+        {(Object.keys(FORCE_LAWS) as ForceLawType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => toggleForceLaw(type)}
+            style={{
+              background: forceLaws.includes(type) ? '#3F51B5' : '#607D8B',
+              color: 'white',
+              border: 'none',
+              padding: '3px 6px',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            {FORCE_LAWS[type].label}
+          </button>
+        ))}
+      </div>
+
+      {forceLaws.includes('coulomb') && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+          <span style={{ color: 'white', fontSize: '14px' }}>k:</span>
+          <input
+            type="range"
+            min={0}
+            max={1000}
+            step={10}
+            value={forceLawParameters.coulombConstant}
+            onChange={(e) => setForceLawParameters({ coulombConstant: Number(e.target.value) })}
+          />
+          <span style={{ color: 'white', fontSize: '12px', fontFamily: 'monospace' }}>{forceLawParameters.coulombConstant}</span>
+        </div>
+      )}
+
+      {forceLaws.includes('yukawa') && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+          <span style={{ color: 'white', fontSize: '14px' }}>λ:</span>
+          <input
+            type="range"
+            min={10}
+            max={1000}
+            step={10}
+            value={forceLawParameters.yukawaRange}
+            onChange={(e) => setForceLawParameters({ yukawaRange: Number(e.target.value) })}
+          />
+          <span style={{ color: 'white', fontSize: '12px', fontFamily: 'monospace' }}>{forceLawParameters.yukawaRange}</span>
+        </div>
+      )}
+
+      {forceLaws.includes('power-law') && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+          <span style={{ color: 'white', fontSize: '14px' }}>n:</span>
+          <input
+            type="range"
+            min={1}
+            max={4}
+            step={0.1}
+            value={forceLawParameters.powerLawExponent}
+            onChange={(e) => setForceLawParameters({ powerLawExponent: Number(e.target.value) })}
+          />
+          <span style={{ color: 'white', fontSize: '12px', fontFamily: 'monospace' }}>{forceLawParameters.powerLawExponent.toFixed(1)}</span>
+        </div>
+      )}
+
+      <EnvironmentControls />
+
+      <button 
+        onClick={toggleAdaptiveTimeStep}
+        title="Subdivide steps during close encounters"
+        style={{
+          background: adaptiveTimeStep ? '#009688' : '#607D8B',
+          color: 'white',
+          border: 'none',
+          padding: '5px 10px',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '14px'
+        }}
+      >
+        {adaptiveTimeStep ? 'Adaptive dt' : 'Fixed dt'}
+      </button>
+
       <button 
         onClick={onCenterView}
         style={{
@@ -215,6 +459,38 @@ export const SimulationControls: React.FC<SimulationControlsProps> = ({ onCenter
         <span style={{ marginRight: '5px' }}>FPS:</span>
         <span style={{ fontWeight: 'bold' }}>{fps}</span>
       </div>
+
+      {/* Substeps per fixed step (always 1 unless adaptive stepping kicks in) */}
+      <div style={{
+        background: 'rgba(0,0,0,0.7)',
+        color: substeps > 1 ? '#FF9800' : 'white',
+        padding: '5px 10px',
+        borderRadius: '4px',
+        fontSize: '14px',
+        fontFamily: 'monospace',
+        display: 'flex',
+        alignItems: 'center'
+      }}>
+        <span style={{ marginRight: '5px' }}>Sub:</span>
+        <span style={{ fontWeight: 'bold' }}>{substeps}</span>
+      </div>
+
+      {/* Simulation clock */}
+      <div style={{
+        background: 'rgba(0,0,0,0.7)',
+        color: 'white',
+        padding: '5px 10px',
+        borderRadius: '4px',
+        fontSize: '14px',
+        fontFamily: 'monospace',
+        display: 'flex',
+        alignItems: 'center'
+      }}>
+        <span style={{ marginRight: '5px' }}>T:</span>
+        <span style={{ fontWeight: 'bold' }}>{simulationTime.toFixed(1)}s</span>
+      </div>
+
+      <TimelineControls />
     </div>
   );
 }; 
\ No newline at end of file
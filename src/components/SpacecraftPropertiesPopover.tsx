@@ -0,0 +1,164 @@
+import React from 'react';
+import { Body, ManeuverNode } from '../physics';
+import { BaseItem } from '../types/canvas';
+import { OrbitalElementsRows } from './OrbitalElementsRows';
+
+interface SpacecraftPropertiesPopoverProps {
+  spacecraft: BaseItem;
+  body: Body; // The spacecraft as the physics sees it
+  primary: Body | undefined; // Body it orbits, for the orbital elements
+  primaryName?: string; // Display name of the primary
+  onClose: () => void;
+  onAddManeuver: (spacecraftId: string) => void;
+  onUpdateManeuver: (spacecraftId: string, node: ManeuverNode) => void;
+  onRemoveManeuver: (spacecraftId: string, nodeId: string) => void;
+  onPlanTransfer: (spacecraftId: string) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '52px',
+  fontSize: '11px',
+  fontFamily: 'monospace',
+  background: 'rgba(255, 255, 255, 0.1)',
+  color: 'white',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '3px',
+  padding: '1px 3px'
+};
+
+const buttonStyle = (background: string): React.CSSProperties => ({
+  backgroundColor: background,
+  color: 'white',
+  border: 'none',
+  padding: '4px 8px',
+  borderRadius: '3px',
+  fontSize: '12px',
+  cursor: 'pointer'
+});
+
+/**
+ * Properties of a spacecraft and its maneuver nodes. Each node's time and
+ * prograde/radial delta-v can be edited here or by dragging its handles.
+ */
+const SpacecraftPropertiesPopover: React.FC<SpacecraftPropertiesPopoverProps> = ({
+  spacecraft,
+  body,
+  primary,
+  primaryName,
+  onClose,
+  onAddManeuver,
+  onUpdateManeuver,
+  onRemoveManeuver,
+  onPlanTransfer
+}) => {
+  const maneuvers: ManeuverNode[] = [...(spacecraft.data.maneuvers ?? [])].sort((a, b) => a.time - b.time);
+
+  // Numeric field bound to one property of a node
+  const nodeInput = (node: ManeuverNode, field: 'time' | 'prograde' | 'radial') => (
+    <input
+      type="number"
+      step={field === 'time' ? 1 : 0.5}
+      value={Number(node[field].toFixed(2))}
+      onChange={(e) => {
+        const value = Number(e.target.value);
+        if (!Number.isNaN(value)) onUpdateManeuver(spacecraft.id, { ...node, [field]: value });
+      }}
+      style={inputStyle}
+    />
+  );
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '100%',
+        marginBottom: '30px',
+        left: spacecraft.width / 2,
+        transform: 'translateX(-50%)',
+        backgroundColor: 'rgba(20, 20, 30, 0.9)',
+        border: `2px solid ${spacecraft.data.color}`,
+        borderRadius: '8px',
+        padding: '12px',
+        minWidth: '240px',
+        color: 'white',
+        zIndex: 200,
+        boxShadow: '0 4px 20px rgba(0, 0, 0, 0.5)',
+        backdropFilter: 'blur(5px)'
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div style={{
+        borderBottom: '1px solid rgba(255, 255, 255, 0.2)',
+        paddingBottom: '8px',
+        marginBottom: '8px',
+        fontWeight: 'bold',
+        fontSize: '16px'
+      }}>
+        {spacecraft.data.name}
+      </div>
+
+      <table style={{ width: '100%', borderSpacing: '0 4px', fontSize: '12px' }}>
+        <tbody>
+          <OrbitalElementsRows body={body} primary={primary} primaryName={primaryName} />
+        </tbody>
+      </table>
+
+      <table style={{ width: '100%', borderSpacing: '0 4px', fontSize: '12px' }}>
+        <tbody>
+          <tr>
+            <td style={{ opacity: 0.7 }}>Velocity:</td>
+            <td colSpan={3} style={{ textAlign: 'right', fontFamily: 'monospace' }}>
+              x: {spacecraft.data.velocity.x.toFixed(2)}, y: {spacecraft.data.velocity.y.toFixed(2)}
+            </td>
+          </tr>
+          <tr style={{ opacity: 0.7 }}>
+            <td>Burn at (s)</td>
+            <td>Prograde</td>
+            <td>Radial</td>
+            <td />
+          </tr>
+          {maneuvers.map(node => (
+            <tr key={node.id}>
+              <td>{nodeInput(node, 'time')}</td>
+              <td>{nodeInput(node, 'prograde')}</td>
+              <td>{nodeInput(node, 'radial')}</td>
+              <td style={{ textAlign: 'right' }}>
+                <button
+                  onClick={() => onRemoveManeuver(spacecraft.id, node.id)}
+                  style={{ ...buttonStyle('#f44336'), padding: '1px 6px' }}
+                >
+                  ×
+                </button>
+              </td>
+            </tr>
+          ))}
+          {maneuvers.length === 0 && (
+            <tr>
+              <td colSpan={4} style={{ opacity: 0.7 }}>No burns scheduled</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div style={{
+        marginTop: '10px',
+        display: 'flex',
+        justifyContent: 'flex-end',
+        gap: '6px'
+      }}>
+        <button onClick={() => onPlanTransfer(spacecraft.id)} style={buttonStyle('#00838F')}>
+          Plan Transfer
+        </button>
+        <button onClick={() => onAddManeuver(spacecraft.id)} style={buttonStyle('#009688')}>
+          Add Burn
+        </button>
+        <button onClick={onClose} style={buttonStyle('#444')}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpacecraftPropertiesPopover;
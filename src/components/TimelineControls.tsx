@@ -0,0 +1,55 @@
+import React from 'react';
+import { useSimulationStore } from '../store/simulationStore';
+
+// Choices for how often a frame is recorded, in simulated seconds
+const HISTORY_INTERVALS = [0.1, 0.25, 0.5, 1, 2];
+
+/**
+ * Scrubber over the recorded timeline. Dragging it pauses the simulation and
+ * shows the scene as it was; pressing Play resumes from there and discards
+ * the frames that came after.
+ */
+export const TimelineControls: React.FC = () => {
+  const {
+    simulationTime,
+    timelineRange,
+    historyInterval,
+    setIsPlaying,
+    setSeekTime,
+    setHistoryInterval
+  } = useSimulationStore();
+
+  const start = timelineRange?.start ?? 0;
+  const end = timelineRange?.end ?? 0;
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }} title="Rewind to a recorded moment">
+      <span style={{ color: 'white', fontSize: '14px' }}>⏪</span>
+      <input
+        type="range"
+        min={start}
+        max={end}
+        step={historyInterval}
+        value={Math.min(Math.max(simulationTime, start), end)}
+        disabled={!timelineRange}
+        onChange={(e) => {
+          setIsPlaying(false);
+          setSeekTime(Number(e.target.value));
+        }}
+      />
+      <span style={{ color: 'white', fontSize: '12px', fontFamily: 'monospace' }}>
+        {start.toFixed(1)}–{end.toFixed(1)}s
+      </span>
+      <select
+        value={historyInterval}
+        onChange={(e) => setHistoryInterval(Number(e.target.value))}
+        title="Time between recorded frames"
+        style={{ fontSize: '12px' }}
+      >
+        {HISTORY_INTERVALS.map(interval => (
+          <option key={interval} value={interval}>every {interval}s</option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React from 'react';
+import { TransferPlan, TransferType } from '../physics';
+import { BaseItem } from '../types/canvas';
+
+interface TransferPlannerPanelProps {
+  traveller: BaseItem;
+  target: BaseItem | null; // Null while the user is still picking one
+  plans: TransferPlan[];
+  selectedType: TransferType;
+  intermediateRatio: number;
+  onSelectType: (type: TransferType) => void;
+  onChangeIntermediateRatio: (ratio: number) => void;
+  onSchedule: (plan: TransferPlan) => void;
+  onClose: () => void;
+}
+
+const TRANSFER_LABELS: Record<TransferType, string> = {
+  'hohmann': 'Hohmann',
+  'bi-elliptic': 'Bi-elliptic'
+};
+
+const buttonStyle = (background: string): React.CSSProperties => ({
+  backgroundColor: background,
+  color: 'white',
+  border: 'none',
+  padding: '4px 8px',
+  borderRadius: '3px',
+  fontSize: '12px',
+  cursor: 'pointer'
+});
+
+/**
+ * Transfer options from the traveller to the chosen target, with the burn
+ * schedule of the selected option and a button to add its maneuver nodes
+ */
+const TransferPlannerPanel: React.FC<TransferPlannerPanelProps> = ({
+  traveller,
+  target,
+  plans,
+  selectedType,
+  intermediateRatio,
+  onSelectType,
+  onChangeIntermediateRatio,
+  onSchedule,
+  onClose
+}) => {
+  const selectedPlan = plans.find(plan => plan.type === selectedType);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: traveller.x + traveller.width + 20,
+        top: traveller.y,
+        backgroundColor: 'rgba(20, 20, 30, 0.9)',
+        border: '2px solid #00BCD4',
+        borderRadius: '8px',
+        padding: '12px',
+        minWidth: '240px',
+        color: 'white',
+        fontSize: '12px',
+        zIndex: 200,
+        boxShadow: '0 4px 20px rgba(0, 0, 0, 0.5)',
+        backdropFilter: 'blur(5px)'
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div style={{
+        borderBottom: '1px solid rgba(255, 255, 255, 0.2)',
+        paddingBottom: '8px',
+        marginBottom: '8px',
+        fontWeight: 'bold',
+        fontSize: '14px'
+      }}>
+        Transfer: {traveller.data.name} → {target ? target.data.name : '?'}
+      </div>
+
+      {!target && <div style={{ opacity: 0.7 }}>Click a target body…</div>}
+
+      {target && plans.length === 0 && (
+        <div style={{ opacity: 0.7 }}>No transfer: both bodies need to orbit the same primary</div>
+      )}
+
+      {plans.length > 0 && (
+        <>
+          <table style={{ width: '100%', borderSpacing: '0 4px', fontFamily: 'monospace' }}>
+            <tbody>
+              <tr style={{ opacity: 0.7, fontFamily: 'sans-serif' }}>
+                <td />
+                <td style={{ textAlign: 'right' }}>Σ|Δv|</td>
+                <td style={{ textAlign: 'right' }}>Wait</td>
+                <td style={{ textAlign: 'right' }}>Trip</td>
+              </tr>
+              {plans.map(plan => (
+                <tr
+                  key={plan.type}
+                  onClick={() => onSelectType(plan.type)}
+                  style={{ cursor: 'pointer', color: plan.type === selectedType ? '#00BCD4' : 'white' }}
+                >
+                  <td style={{ fontFamily: 'sans-serif' }}>
+                    {plan.type === selectedType ? '● ' : '○ '}{TRANSFER_LABELS[plan.type]}
+                  </td>
+                  <td style={{ textAlign: 'right' }}>{plan.totalDeltaV.toFixed(2)}</td>
+                  <td style={{ textAlign: 'right' }}>{plan.waitTime.toFixed(1)}s</td>
+                  <td style={{ textAlign: 'right' }}>{plan.transferTime.toFixed(1)}s</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {selectedType === 'bi-elliptic' && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '5px', marginTop: '4px' }}>
+              <span style={{ opacity: 0.7 }}>Apoapsis ×</span>
+              <input
+                type="range"
+                min={1}
+                max={5}
+                step={0.1}
+                value={intermediateRatio}
+                onChange={(e) => onChangeIntermediateRatio(Number(e.target.value))}
+              />
+              <span style={{ fontFamily: 'monospace' }}>{intermediateRatio.toFixed(1)}</span>
+            </div>
+          )}
+
+          {selectedPlan && (
+            <table style={{ width: '100%', borderSpacing: '0 2px', marginTop: '6px', fontFamily: 'monospace' }}>
+              <tbody>
+                {selectedPlan.burns.map((burn, index) => (
+                  <tr key={index}>
+                    <td style={{ opacity: 0.7, fontFamily: 'sans-serif' }}>Burn {index + 1}</td>
+                    <td style={{ textAlign: 'right' }}>@ {burn.time.toFixed(1)}s</td>
+                    <td style={{ textAlign: 'right' }}>Δv {burn.prograde >= 0 ? '+' : ''}{burn.prograde.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+
+      <div style={{
+        marginTop: '10px',
+        display: 'flex',
+        justifyContent: 'flex-end',
+        gap: '6px'
+      }}>
+        {selectedPlan && (
+          <button onClick={() => onSchedule(selectedPlan)} style={buttonStyle('#009688')}>
+            Schedule Burns
+          </button>
+        )}
+        <button onClick={onClose} style={buttonStyle('#444')}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TransferPlannerPanel;
@@ -1,5 +1,6 @@
 import React, { useState, useCallback } from 'react';
-import { Canvas, calculateCenteredTransform } from './Canvas';
+import { Canvas } from './Canvas';
+import { calculateCenteredTransform } from '../types/canvas';
 
 interface ViewportProps {
   mode: 'pan' | 'add';
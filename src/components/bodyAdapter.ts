@@ -0,0 +1,113 @@
+import { Body, ManeuverNode, SimulationState, SnapshotMessage, unpackKinematics } from '../physics';
+import { BaseItem, isBodyItem } from '../types/canvas';
+
+// Items are positioned by their top-left corner while the physics engine works
+// with body centers. These helpers are the only place that converts between them.
+
+/**
+ * Convert a canvas item into a physics body
+ */
+export const itemToBody = (item: BaseItem): Body => ({
+  id: item.id,
+  position: {
+    x: item.x + item.width / 2,
+    y: item.y + item.height / 2
+  },
+  velocity: {
+    x: item.data.velocity?.x ?? 0,
+    y: item.data.velocity?.y ?? 0
+  },
+  mass: item.data.mass,
+  radius: item.data.radius,
+  color: item.data.color,
+  charge: item.data.charge,
+  isFixed: !!item.data.isFixed,
+  primaryId: item.data.primaryId,
+  maneuvers: item.data.maneuvers
+});
+
+/**
+ * Build a simulation state from the planets and spacecraft among the canvas items
+ * @param items All canvas items
+ * @param time Simulated time to start from
+ */
+export const createSimulationState = (items: BaseItem[], time: number = 0): SimulationState => ({
+  bodies: items.filter(isBodyItem).map(itemToBody),
+  time
+});
+
+/**
+ * Copy the bodies from a worker snapshot onto the matching canvas items.
+ * Bodies missing from the snapshot were absorbed in a merge and are removed;
+ * merged survivors pick up their new size, blended color and summed charge.
+ * Maneuver nodes that fired are dropped from their spacecraft. Works for the
+ * original run and for a fork alike.
+ */
+export const applySnapshot = (
+  items: BaseItem[],
+  snapshot: Pick<SnapshotMessage, 'ids' | 'kinematics' | 'events'>
+): BaseItem[] => {
+  const indexById = new Map(snapshot.ids.map((id, index) => [id, index]));
+
+  const mergedColors = new Map<string, string>();
+  const mergedCharges = new Map<string, number>();
+  const absorbedBy = new Map<string, string>();
+  const executedNodes = new Set<string>();
+  snapshot.events.forEach(event => {
+    if (event.type === 'maneuver') {
+      executedNodes.add(event.nodeId);
+      return;
+    }
+    if (event.type !== 'collision' || !event.survivor) return;
+    if (event.survivor.color) {
+      mergedColors.set(event.survivor.id, event.survivor.color);
+    }
+    if (event.survivor.charge !== undefined) {
+      mergedCharges.set(event.survivor.id, event.survivor.charge);
+    }
+    event.bodyIds
+      .filter(id => id !== event.survivor!.id)
+      .forEach(id => absorbedBy.set(id, event.survivor!.id));
+  });
+
+  // Bodies that orbited an absorbed body now orbit whatever absorbed it
+  const resolvePrimary = (item: BaseItem): string | undefined => {
+    let primaryId: string | undefined = item.data.primaryId;
+    while (primaryId && absorbedBy.has(primaryId)) {
+      primaryId = absorbedBy.get(primaryId);
+    }
+    return primaryId === item.id ? undefined : primaryId;
+  };
+
+  return items
+    .filter(item => !isBodyItem(item) || indexById.has(item.id))
+    .map(item => {
+      const index = indexById.get(item.id);
+      if (index === undefined) return item;
+
+      const { position, velocity, mass, radius } = unpackKinematics(snapshot.kinematics, index);
+
+      // Grow the item's box along with its radius
+      const scale = item.data.radius ? radius / item.data.radius : 1;
+      const width = item.width * scale;
+      const height = item.height * scale;
+
+      return {
+        ...item,
+        x: position.x - width / 2,
+        y: position.y - height / 2,
+        width,
+        height,
+        data: {
+          ...item.data,
+          velocity,
+          mass,
+          radius,
+          color: mergedColors.get(item.id) ?? item.data.color,
+          charge: mergedCharges.get(item.id) ?? item.data.charge,
+          primaryId: resolvePrimary(item),
+          maneuvers: item.data.maneuvers?.filter((node: ManeuverNode) => !executedNodes.has(node.id))
+        }
+      };
+    });
+};
@@ -0,0 +1,10 @@
+// Global keyboard shortcuts are registered on the window, so they also see
+// keys typed into form fields. Handlers use this to leave typing alone.
+
+/**
+ * Whether a key event's target is a field the user is typing into
+ */
+export const isTextEntryTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { BaseItem } from '../Canvas';
+import { BaseItem } from '../../types/canvas';
 
 interface ForceLineLayerProps {
   canvasWidth: number;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { BaseItem, isBodyItem } from '../../types/canvas';
+
+interface ForkGhostLayerProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  items: BaseItem[]; // The original run
+  forkItems: BaseItem[] | null; // The what-if run, null when there is no fork
+}
+
+// Centre of an item in canvas coordinates
+const center = (item: BaseItem) => ({ x: item.x + item.width / 2, y: item.y + item.height / 2 });
+
+/**
+ * Bodies of the forked run drawn as translucent ghosts, each tied to its
+ * counterpart in the original run by a faint line once the two have parted
+ */
+const ForkGhostLayer: React.FC<ForkGhostLayerProps> = ({ canvasWidth, canvasHeight, items, forkItems }) => {
+  if (!forkItems) return null;
+
+  const originalsById = new Map(items.map(item => [item.id, item]));
+
+  return (
+    <svg style={{
+      position: 'absolute',
+      left: 0,
+      top: 0,
+      width: `${canvasWidth}px`,
+      height: `${canvasHeight}px`,
+      pointerEvents: 'none',
+      zIndex: 25
+    }}>
+      {forkItems.filter(isBodyItem).map(ghost => {
+        const position = center(ghost);
+        const original = originalsById.get(ghost.id);
+        const originalPosition = original && center(original);
+        const radius = Math.max(ghost.width, ghost.height) / 2;
+        const parted = originalPosition &&
+          Math.hypot(position.x - originalPosition.x, position.y - originalPosition.y) > radius;
+
+        return (
+          <g key={`ghost-${ghost.id}`}>
+            {parted && (
+              <line
+                x1={originalPosition.x}
+                y1={originalPosition.y}
+                x2={position.x}
+                y2={position.y}
+                stroke={ghost.data.color}
+                strokeOpacity={0.4}
+                strokeDasharray="4,4"
+              />
+            )}
+            <circle
+              cx={position.x}
+              cy={position.y}
+              r={radius}
+              fill={ghost.data.color}
+              fillOpacity={0.25}
+              stroke={ghost.data.color}
+              strokeOpacity={0.6}
+              strokeDasharray="6,3"
+              strokeWidth={2}
+            />
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default ForkGhostLayer;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { LagrangePoint, LagrangeSystem, Vector2 } from '../../physics';
+
+interface LagrangeLayerProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  system: LagrangeSystem | null;
+  secondaryPosition: Vector2 | null; // Center of the Hill sphere
+  primaryPinned: boolean; // A pinned primary has no stable L4/L5
+  onPlaceTestBody: (point: LagrangePoint) => void;
+}
+
+const MARKER_COLOR = '#FFD54F';
+
+/**
+ * Lagrange points and Hill sphere of the selected body and its primary.
+ * Right-clicking a point offers to place a co-moving test body there.
+ */
+const LagrangeLayer: React.FC<LagrangeLayerProps> = ({
+  canvasWidth,
+  canvasHeight,
+  system,
+  secondaryPosition,
+  primaryPinned,
+  onPlaceTestBody
+}) => {
+  const [menuPoint, setMenuPoint] = useState<LagrangePoint['name'] | null>(null);
+
+  // Any click elsewhere closes the context menu
+  useEffect(() => {
+    if (!menuPoint) return;
+    const close = () => setMenuPoint(null);
+    window.addEventListener('mousedown', close);
+    return () => window.removeEventListener('mousedown', close);
+  }, [menuPoint]);
+
+  if (!system || !secondaryPosition) return null;
+
+  const menuTarget = system.points.find(point => point.name === menuPoint);
+
+  return (
+    <>
+      <svg style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: `${canvasWidth}px`,
+        height: `${canvasHeight}px`,
+        pointerEvents: 'none',
+        zIndex: 20
+      }}>
+        <circle
+          cx={secondaryPosition.x}
+          cy={secondaryPosition.y}
+          r={system.hillRadius}
+          fill="rgba(255, 213, 79, 0.05)"
+          stroke={MARKER_COLOR}
+          strokeWidth={1}
+          strokeDasharray="4,4"
+        />
+        <text x={secondaryPosition.x + system.hillRadius + 4} y={secondaryPosition.y} fill={MARKER_COLOR} fontSize={10}>
+          Hill {system.hillRadius.toFixed(0)}
+        </text>
+
+        {system.points.map(point => (
+          <g
+            key={point.name}
+            style={{ pointerEvents: 'all', cursor: 'context-menu' }}
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              setMenuPoint(point.name);
+            }}
+          >
+            <title>Right-click to place a test body</title>
+            <line x1={point.position.x - 6} y1={point.position.y} x2={point.position.x + 6} y2={point.position.y} stroke={MARKER_COLOR} strokeWidth={2} />
+            <line x1={point.position.x} y1={point.position.y - 6} x2={point.position.x} y2={point.position.y + 6} stroke={MARKER_COLOR} strokeWidth={2} />
+            <circle cx={point.position.x} cy={point.position.y} r={9} fill="transparent" />
+            <text x={point.position.x + 8} y={point.position.y - 8} fill={MARKER_COLOR} fontSize={11}>
+              {point.name}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      {menuTarget && (
+        <div
+          style={{
+            position: 'absolute',
+            left: menuTarget.position.x + 12,
+            top: menuTarget.position.y + 12,
+            backgroundColor: 'rgba(20, 20, 30, 0.95)',
+            border: `1px solid ${MARKER_COLOR}`,
+            borderRadius: '4px',
+            padding: '4px',
+            color: 'white',
+            fontSize: '12px',
+            zIndex: 210
+          }}
+          onClick={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div
+            style={{ padding: '4px 8px', cursor: 'pointer' }}
+            onClick={() => {
+              onPlaceTestBody(menuTarget);
+              setMenuPoint(null);
+            }}
+          >
+            Place test body at {menuTarget.name}
+          </div>
+          {primaryPinned && (menuTarget.name === 'L4' || menuTarget.name === 'L5') && (
+            <div style={{ padding: '0 8px 4px', opacity: 0.7, maxWidth: '180px' }}>
+              The primary is pinned, so this point isn't stable. Unpin it to see a Trojan orbit.
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default LagrangeLayer;
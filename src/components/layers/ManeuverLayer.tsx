@@ -0,0 +1,169 @@
+import React, { useEffect, useRef } from 'react';
+import { BurnFrame, burnDeltaV, ManeuverNode, Vector2 } from '../../physics';
+import { BaseItem } from '../../types/canvas';
+
+// A maneuver node placed where the predicted path reaches it
+export interface ManeuverMarker {
+  spacecraftId: string;
+  nodeId: string;
+  position: Vector2;
+  frame: BurnFrame;
+}
+
+type HandleAxis = 'prograde' | 'radial';
+
+// One draggable handle per direction: prograde/retrograde and radial out/in
+const HANDLES: { axis: HandleAxis; sign: 1 | -1; color: string }[] = [
+  { axis: 'prograde', sign: 1, color: '#4CAF50' },
+  { axis: 'prograde', sign: -1, color: '#8BC34A' },
+  { axis: 'radial', sign: 1, color: '#03A9F4' },
+  { axis: 'radial', sign: -1, color: '#00BCD4' }
+];
+
+const HANDLE_DISTANCE = 40; // Canvas units from the node to each handle
+const PIXELS_PER_DELTA_V = 10; // Drag distance per unit of delta-v
+const DELTA_V_VECTOR_SCALE = 5; // Length of the drawn delta-v arrow per unit
+
+interface DragState {
+  spacecraftId: string;
+  node: ManeuverNode; // Node as it was when the drag started
+  axis: HandleAxis;
+  direction: Vector2; // Unit vector the handle moves along
+  sign: 1 | -1;
+  startX: number; // Mouse position in screen pixels
+  startY: number;
+}
+
+interface ManeuverLayerProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  items: BaseItem[];
+  markers: ManeuverMarker[];
+  scale: number; // Canvas zoom, to turn screen drags into canvas distances
+  onUpdateManeuver: (spacecraftId: string, node: ManeuverNode) => void;
+}
+
+const ManeuverLayer: React.FC<ManeuverLayerProps> = ({
+  canvasWidth,
+  canvasHeight,
+  items,
+  markers,
+  scale,
+  onUpdateManeuver
+}) => {
+  const drag = useRef<DragState | null>(null);
+
+  // Follow the mouse anywhere on the page while a handle is held
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+      const current = drag.current;
+      if (!current) return;
+
+      const deltaX = (e.clientX - current.startX) / scale;
+      const deltaY = (e.clientY - current.startY) / scale;
+      // Only motion along the handle's own direction counts
+      const along = deltaX * current.direction.x + deltaY * current.direction.y;
+      const value = current.node[current.axis] + current.sign * along / PIXELS_PER_DELTA_V;
+
+      onUpdateManeuver(current.spacecraftId, { ...current.node, [current.axis]: Math.round(value * 10) / 10 });
+    };
+
+    const handleMouseUp = () => {
+      drag.current = null;
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [scale, onUpdateManeuver]);
+
+  if (markers.length === 0) return null;
+
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  return (
+    <svg style={{
+      position: 'absolute',
+      left: 0,
+      top: 0,
+      width: `${canvasWidth}px`,
+      height: `${canvasHeight}px`,
+      pointerEvents: 'none',
+      zIndex: 80
+    }}>
+      {markers.map(marker => {
+        const spacecraft = itemsById.get(marker.spacecraftId);
+        const node: ManeuverNode | undefined = spacecraft?.data.maneuvers?.find(
+          (candidate: ManeuverNode) => candidate.id === marker.nodeId
+        );
+        if (!spacecraft || !node) return null;
+
+        const { x, y } = marker.position;
+        const deltaV = burnDeltaV(node, marker.frame);
+
+        return (
+          <g key={`maneuver-${marker.nodeId}`}>
+            {/* Resulting delta-v */}
+            <line
+              x1={x}
+              y1={y}
+              x2={x + deltaV.x * DELTA_V_VECTOR_SCALE}
+              y2={y + deltaV.y * DELTA_V_VECTOR_SCALE}
+              stroke="#FFEB3B"
+              strokeWidth={2}
+            />
+
+            {HANDLES.map(handle => {
+              const direction = {
+                x: marker.frame[handle.axis].x * handle.sign,
+                y: marker.frame[handle.axis].y * handle.sign
+              };
+              const handleX = x + direction.x * HANDLE_DISTANCE;
+              const handleY = y + direction.y * HANDLE_DISTANCE;
+
+              return (
+                <g key={`${handle.axis}-${handle.sign}`}>
+                  <line x1={x} y1={y} x2={handleX} y2={handleY} stroke={handle.color} strokeWidth={1} strokeOpacity={0.5} />
+                  <circle
+                    cx={handleX}
+                    cy={handleY}
+                    r={6}
+                    fill={handle.color}
+                    style={{ pointerEvents: 'all', cursor: 'grab' }}
+                    onClick={(e) => e.stopPropagation()}
+                    onMouseDown={(e) => {
+                      // Keep the canvas from starting a pan
+                      e.stopPropagation();
+                      e.preventDefault();
+                      drag.current = {
+                        spacecraftId: marker.spacecraftId,
+                        node,
+                        axis: handle.axis,
+                        direction,
+                        sign: handle.sign,
+                        startX: e.clientX,
+                        startY: e.clientY
+                      };
+                    }}
+                  />
+                </g>
+              );
+            })}
+
+            {/* The node itself */}
+            <circle cx={x} cy={y} r={5} fill="none" stroke="#FFEB3B" strokeWidth={2} />
+            <text x={x + 8} y={y - 8} fill="#FFEB3B" fontSize={11}>
+              Δv {Math.hypot(deltaV.x, deltaV.y).toFixed(1)} @ {node.time.toFixed(1)}s
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default ManeuverLayer;
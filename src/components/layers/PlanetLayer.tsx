@@ -1,6 +1,9 @@
 import React from 'react';
-import { BaseItem, ItemTypeConfig } from '../Canvas';
+import { BaseItem, ItemTypeConfig } from '../../types/canvas';
+import { findPrimary, ManeuverNode } from '../../physics';
+import { createSimulationState } from '../bodyAdapter';
 import PlanetPropertiesPopover from '../PlanetPropertiesPopover';
+import SpacecraftPropertiesPopover from '../SpacecraftPropertiesPopover';
 
 interface PlanetLayerProps {
   items: BaseItem[];
@@ -8,6 +11,12 @@ interface PlanetLayerProps {
   selectedPlanetId: string | null;
   setSelectedPlanetId: (id: string | null) => void;
   togglePlanetOrbitalMode: (planetId: string) => void;
+  togglePlanetFixed: (planetId: string) => void;
+  setPlanetCharge: (planetId: string, charge: number) => void;
+  addManeuver: (spacecraftId: string) => void;
+  updateManeuver: (spacecraftId: string, node: ManeuverNode) => void;
+  removeManeuver: (spacecraftId: string, nodeId: string) => void;
+  planTransfer: (spacecraftId: string) => void;
   handlePlanetClick: (e: React.MouseEvent, planetId: string) => void;
 }
 
@@ -17,14 +26,26 @@ const PlanetLayer: React.FC<PlanetLayerProps> = ({
   selectedPlanetId,
   setSelectedPlanetId,
   togglePlanetOrbitalMode,
+  togglePlanetFixed,
+  setPlanetCharge,
+  addManeuver,
+  updateManeuver,
+  removeManeuver,
+  planTransfer,
   handlePlanetClick
 }) => {
+  // The selected body and its primary, for the orbital elements in the popover
+  const bodies = selectedPlanetId ? createSimulationState(items).bodies : [];
+  const selectedBody = bodies.find(body => body.id === selectedPlanetId);
+  const selectedPrimary = selectedBody && findPrimary(bodies, selectedBody);
+  const selectedPrimaryName = selectedPrimary && items.find(item => item.id === selectedPrimary.id)?.data.name;
+
   return (
     <>
-      {items.map((item, index) => {
+      {items.map(item => {
         // Check if item is a planet
         const isPlanet = item.type === 'planet';
-        const isCentralBody = isPlanet && index === 0; // Assuming first planet is the central body
+        const isFixedBody = isPlanet && !!item.data.isFixed;
         
         return (
           <div
@@ -36,7 +57,7 @@ const PlanetLayer: React.FC<PlanetLayerProps> = ({
               width: item.width,
               height: item.height,
               borderRadius: '4px',
-              zIndex: isCentralBody ? 50 : 70, // Central body below other planets
+              zIndex: isFixedBody ? 50 : 70, // Fixed bodies below other planets
             }}
           >
             <div 
@@ -47,8 +68,8 @@ const PlanetLayer: React.FC<PlanetLayerProps> = ({
                 mergedItemTypes[item.type].render(item) : null}
             </div>
             
-            {/* Orbit mode toggle button for planets except the central body */}
-            {isPlanet && !isCentralBody && (
+            {/* Orbit mode toggle button for planets that can move */}
+            {isPlanet && !isFixedBody && (
               <div 
                 style={{
                   position: 'absolute',
@@ -72,8 +93,8 @@ const PlanetLayer: React.FC<PlanetLayerProps> = ({
               </div>
             )}
             
-            {/* Display a "Sun" label for the central body */}
-            {isCentralBody && (
+            {/* Display a label for fixed bodies such as the Sun */}
+            {isFixedBody && (
               <div 
                 style={{
                   position: 'absolute',
@@ -88,16 +109,36 @@ const PlanetLayer: React.FC<PlanetLayerProps> = ({
                   zIndex: 100
                 }}
               >
-                Central Body
+                Fixed
               </div>
             )}
             
             {/* Planet Properties Popover */}
-            {selectedPlanetId === item.id && isPlanet && (
+            {selectedPlanetId === item.id && isPlanet && selectedBody && (
               <PlanetPropertiesPopover 
                 planet={item}
+                body={selectedBody}
+                primary={selectedPrimary}
+                primaryName={selectedPrimaryName}
                 onClose={() => setSelectedPlanetId(null)}
                 onToggleOrbitalMode={togglePlanetOrbitalMode}
+                onToggleFixed={togglePlanetFixed}
+                onChangeCharge={setPlanetCharge}
+              />
+            )}
+
+            {/* Spacecraft Properties Popover with its maneuver nodes */}
+            {selectedPlanetId === item.id && item.type === 'spacecraft' && selectedBody && (
+              <SpacecraftPropertiesPopover
+                spacecraft={item}
+                body={selectedBody}
+                primary={selectedPrimary}
+                primaryName={selectedPrimaryName}
+                onClose={() => setSelectedPlanetId(null)}
+                onAddManeuver={addManeuver}
+                onUpdateManeuver={updateManeuver}
+                onRemoveManeuver={removeManeuver}
+                onPlanTransfer={planTransfer}
               />
             )}
           </div>
@@ -0,0 +1,46 @@
+import React from 'react';
+import { QuadtreeCell } from '../../physics';
+
+interface QuadtreeLayerProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  cells: QuadtreeCell[];
+  showQuadtree: boolean;
+}
+
+const QuadtreeLayer: React.FC<QuadtreeLayerProps> = ({
+  canvasWidth,
+  canvasHeight,
+  cells,
+  showQuadtree
+}) => {
+  if (!showQuadtree) return null;
+
+  return (
+    <svg style={{
+      position: 'absolute',
+      left: 0,
+      top: 0,
+      width: `${canvasWidth}px`,
+      height: `${canvasHeight}px`,
+      pointerEvents: 'none',
+      zIndex: 15
+    }}>
+      {cells.map((cell, index) => (
+        <rect
+          key={`cell-${index}`}
+          x={cell.x}
+          y={cell.y}
+          width={cell.size}
+          height={cell.size}
+          fill="none"
+          // Deeper cells fade out so the coarse structure stays readable
+          stroke={`rgba(0, 255, 200, ${Math.max(0.15, 0.6 - cell.depth * 0.05)})`}
+          strokeWidth={1}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default QuadtreeLayer;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { TransferPlan } from '../../physics';
+import { BaseItem } from '../../types/canvas';
+
+interface TransferLayerProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  target: BaseItem | null;
+  plan: TransferPlan | null; // Option currently selected in the planner
+}
+
+/**
+ * Overlay of a planned transfer: the transfer ellipse from the departure
+ * burn to the target's orbit, with a dot at every burn along the way
+ */
+const TransferLayer: React.FC<TransferLayerProps> = ({ canvasWidth, canvasHeight, target, plan }) => {
+  if (!plan) return null;
+
+  const { path } = plan;
+  // Each half-ellipse ends where a burn happens
+  const arcLength = (path.length - 1) / (plan.burns.length - 1);
+  const burnPoints = plan.burns.map((_, index) => path[Math.round(index * arcLength)]);
+
+  return (
+    <svg style={{
+      position: 'absolute',
+      left: 0,
+      top: 0,
+      width: `${canvasWidth}px`,
+      height: `${canvasHeight}px`,
+      pointerEvents: 'none',
+      zIndex: 12
+    }}>
+      <polyline
+        points={path.map(point => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        stroke="#00BCD4"
+        strokeWidth={2}
+        strokeDasharray="8,4"
+      />
+      {burnPoints.map((point, index) => (
+        <circle key={index} cx={point.x} cy={point.y} r={5} fill="#00BCD4" />
+      ))}
+      {target && (
+        <circle
+          cx={target.x + target.width / 2}
+          cy={target.y + target.height / 2}
+          r={Math.max(target.width, target.height) / 2 + 8}
+          fill="none"
+          stroke="#00BCD4"
+          strokeWidth={2}
+        />
+      )}
+    </svg>
+  );
+};
+
+export default TransferLayer;
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CameraTransform, parseScene, SceneFile, SceneValidationError, serializeScene } from '../store/sceneFile';
+import { presetScene, SCENE_PRESETS } from '../store/presets';
+import { decodeSceneLink, encodeSceneLink, isSceneLink } from '../store/sceneLink';
+import { useSimulationStore } from '../store/simulationStore';
+import { BaseItem } from '../types/canvas';
+
+// Where the autosaved scene is kept, and how often it is written
+const AUTOSAVE_KEY = 'orbital-scene-autosave';
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+interface ScenePersistenceOptions {
+  itemsRef: React.MutableRefObject<BaseItem[]>; // Latest items, read when saving
+  transform: CameraTransform;
+  knownTypes: string[]; // Item types the canvas can render
+  onLoad: (scene: SceneFile) => void; // Replace the current scene
+}
+
+/**
+ * Keep the scene across reloads: autosave it to localStorage, restore it on
+ * startup (or open the scene in a shared link instead), and carry out the
+ * file, link and preset commands. Scenes that fail validation leave the current one
+ * untouched and set `sceneError`.
+ * @returns `linkPending` while a shared link opened at startup is still loading
+ */
+export const useScenePersistence = ({ itemsRef, transform, knownTypes, onLoad }: ScenePersistenceOptions) => {
+  const [linkPending, setLinkPending] = useState(() => isSceneLink(window.location.hash));
+  const { sceneFileRequest, setSceneFileRequest, setSceneError, presetRequest, setPresetRequest } = useSimulationStore();
+
+  // Latest values for the timers and file callbacks
+  const latest = useRef({ transform, knownTypes, onLoad });
+  useEffect(() => {
+    latest.current = { transform, knownTypes, onLoad };
+  }, [transform, knownTypes, onLoad]);
+
+  // Whether the scene was loaded
+  const loadText = useCallback((text: string, source: string): boolean => {
+    try {
+      latest.current.onLoad(parseScene(text, latest.current.knownTypes));
+      setSceneError(null);
+      return true;
+    } catch (error) {
+      if (!(error instanceof SceneValidationError)) throw error;
+      setSceneError(`${source}: ${error.message}`);
+      return false;
+    }
+  }, [setSceneError]);
+
+  // Open the scene in the URL hash, then drop the hash so that reloading
+  // picks up the autosave of any later edits. Resolves to whether it loaded.
+  const loadLink = useCallback(async (hash: string): Promise<boolean> => {
+    const source = 'Could not open the shared link';
+    let loaded = false;
+    try {
+      loaded = loadText(await decodeSceneLink(hash), source);
+    } catch (error) {
+      if (!(error instanceof SceneValidationError)) throw error;
+      setSceneError(`${source}: ${error.message}`);
+    }
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    return loaded;
+  }, [loadText, setSceneError]);
+
+  const restoreAutosave = useCallback(() => {
+    const saved = localStorage.getItem(AUTOSAVE_KEY);
+    if (saved) loadText(saved, 'Could not restore the autosaved scene');
+  }, [loadText]);
+
+  const saveText = useCallback((pretty: boolean) => {
+    return JSON.stringify(serializeScene(itemsRef.current, latest.current.transform), null, pretty ? 2 : undefined);
+  }, [itemsRef]);
+
+  // On startup a shared link wins over the autosaved scene. A link that
+  // fails to open falls back to the autosave, and the canvas seeds its
+  // default scene if there is none.
+  useEffect(() => {
+    if (!isSceneLink(window.location.hash)) {
+      restoreAutosave();
+      return;
+    }
+    loadLink(window.location.hash).then(loaded => {
+      if (!loaded) {
+        const linkError = useSimulationStore.getState().sceneError;
+        restoreAutosave();
+        // A restored autosave clears the error, but the link still failed
+        if (!useSimulationStore.getState().sceneError) setSceneError(linkError);
+      }
+      setLinkPending(false);
+    });
+  }, [loadLink, restoreAutosave, setSceneError]);
+
+  // Links pasted into the address bar of an open tab only change the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      if (isSceneLink(window.location.hash)) loadLink(window.location.hash);
+    };
+
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [loadLink]);
+
+  // Autosave periodically and when the page is closed
+  useEffect(() => {
+    const autosave = () => {
+      try {
+        localStorage.setItem(AUTOSAVE_KEY, saveText(false));
+      } catch {
+        setSceneError('Autosave failed: browser storage is full or unavailable');
+      }
+    };
+
+    const interval = setInterval(autosave, AUTOSAVE_INTERVAL_MS);
+    window.addEventListener('beforeunload', autosave);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('beforeunload', autosave);
+    };
+  }, [saveText, setSceneError]);
+
+  // Save, load or share the scene when the command palette asks for it
+  useEffect(() => {
+    if (!sceneFileRequest) return;
+    setSceneFileRequest(null);
+
+    if (sceneFileRequest === 'copy-link') {
+      encodeSceneLink(serializeScene(itemsRef.current, latest.current.transform))
+        .then(link => navigator.clipboard.writeText(link))
+        .catch(() => setSceneError('Could not copy the link: clipboard access was denied'));
+      return;
+    }
+
+    if (sceneFileRequest === 'save') {
+      const url = URL.createObjectURL(new Blob([saveText(true)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `scene-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) file.text().then(text => loadText(text, `Could not load ${file.name}`));
+    };
+    input.click();
+  }, [sceneFileRequest, setSceneFileRequest, setSceneError, saveText, loadText, itemsRef]);
+
+  // Replace the scene with a built-in preset
+  useEffect(() => {
+    if (!presetRequest) return;
+    setPresetRequest(null);
+
+    const preset = SCENE_PRESETS.find(candidate => candidate.id === presetRequest);
+    if (!preset) return;
+    latest.current.onLoad(presetScene(preset));
+    setSceneError(null);
+  }, [presetRequest, setPresetRequest, setSceneError]);
+
+  return { linkPending };
+};
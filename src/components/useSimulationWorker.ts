@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { PredictionsMessage, SnapshotMessage, WorkerRequest, WorkerResponse } from '../physics';
+
+interface SimulationWorkerHandlers {
+  onSnapshot: (snapshot: SnapshotMessage) => void;
+  onPredictions: (predictions: PredictionsMessage) => void;
+}
+
+/**
+ * Start the physics worker for the lifetime of the calling component
+ * @param handlers Callbacks for messages coming back from the worker
+ * @returns A function that sends a request to the worker
+ */
+export const useSimulationWorker = (handlers: SimulationWorkerHandlers) => {
+  const workerRef = useRef<Worker | null>(null);
+
+  // Keep the latest handlers without restarting the worker
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../physics/simulation.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'snapshot') {
+        handlersRef.current.onSnapshot(message);
+      } else {
+        handlersRef.current.onPredictions(message);
+      }
+    });
+
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  return useCallback((message: WorkerRequest) => {
+    workerRef.current?.postMessage(message);
+  }, []);
+};
@@ -0,0 +1,186 @@
+import { Body, Vector2 } from './types';
+
+// Barnes-Hut quadtree. Distant groups of bodies are replaced by a single point
+// mass at their center of mass, which brings force evaluation down from
+// O(n²) to roughly O(n log n).
+
+export const DEFAULT_THETA = 0.5;
+
+// Bodies that end up (almost) on top of each other stop splitting here
+const MAX_DEPTH = 24;
+
+export interface QuadtreeNode {
+  x: number; // Left edge of the cell
+  y: number; // Top edge of the cell
+  size: number; // Side length of the (square) cell
+  mass: number; // Total mass inside the cell
+  centerOfMass: Vector2;
+  bodies: Body[]; // Bodies held directly by a leaf (usually zero or one)
+  children: QuadtreeNode[] | null; // Four sub-cells, or null for a leaf
+}
+
+// Outline of a cell, for the debug overlay
+export interface QuadtreeCell {
+  x: number;
+  y: number;
+  size: number;
+  depth: number;
+}
+
+const createNode = (x: number, y: number, size: number): QuadtreeNode => ({
+  x,
+  y,
+  size,
+  mass: 0,
+  centerOfMass: { x: 0, y: 0 },
+  bodies: [],
+  children: null
+});
+
+const childFor = (node: QuadtreeNode, position: Vector2): QuadtreeNode => {
+  const half = node.size / 2;
+  const column = position.x >= node.x + half ? 1 : 0;
+  const row = position.y >= node.y + half ? 1 : 0;
+  return node.children![row * 2 + column];
+};
+
+const insert = (node: QuadtreeNode, body: Body, depth: number): void => {
+  if (!node.children) {
+    // An empty leaf (or one that can't split any further) just keeps the body
+    if (node.bodies.length === 0 || depth >= MAX_DEPTH) {
+      node.bodies.push(body);
+      return;
+    }
+
+    // Split the leaf and push its current occupants down a level
+    const half = node.size / 2;
+    node.children = [
+      createNode(node.x, node.y, half),
+      createNode(node.x + half, node.y, half),
+      createNode(node.x, node.y + half, half),
+      createNode(node.x + half, node.y + half, half)
+    ];
+    const occupants = node.bodies;
+    node.bodies = [];
+    occupants.forEach(occupant => insert(childFor(node, occupant.position), occupant, depth + 1));
+  }
+
+  insert(childFor(node, body.position), body, depth + 1);
+};
+
+// Fill in mass and center of mass bottom-up
+const summarize = (node: QuadtreeNode): void => {
+  const members = node.children ?? [];
+  members.forEach(summarize);
+
+  let mass = 0;
+  let weightedX = 0;
+  let weightedY = 0;
+
+  node.bodies.forEach(body => {
+    mass += body.mass;
+    weightedX += body.position.x * body.mass;
+    weightedY += body.position.y * body.mass;
+  });
+  members.forEach(child => {
+    mass += child.mass;
+    weightedX += child.centerOfMass.x * child.mass;
+    weightedY += child.centerOfMass.y * child.mass;
+  });
+
+  node.mass = mass;
+  node.centerOfMass = mass > 0
+    ? { x: weightedX / mass, y: weightedY / mass }
+    : { x: node.x + node.size / 2, y: node.y + node.size / 2 };
+};
+
+/**
+ * Build a quadtree that covers all of the given bodies
+ */
+export const buildQuadtree = (bodies: Body[]): QuadtreeNode => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  bodies.forEach(body => {
+    minX = Math.min(minX, body.position.x);
+    minY = Math.min(minY, body.position.y);
+    maxX = Math.max(maxX, body.position.x);
+    maxY = Math.max(maxY, body.position.y);
+  });
+
+  if (bodies.length === 0) {
+    return createNode(0, 0, 1);
+  }
+
+  // Square root cell, padded slightly so no body sits exactly on the far edge
+  const size = Math.max(maxX - minX, maxY - minY, 1) * 1.01;
+  const root = createNode(minX, minY, size);
+
+  bodies.forEach(body => insert(root, body, 0));
+  summarize(root);
+
+  return root;
+};
+
+/**
+ * Walk the tree on behalf of `target`, reporting every point mass it should
+ * feel. A cell is treated as a single mass when size / distance < theta;
+ * otherwise it is opened. Individual bodies are reported with `source` set.
+ * @param root Tree built with buildQuadtree
+ * @param target Body the forces act on (never reported as its own source)
+ * @param theta Opening angle; 0 is exact, larger is faster and rougher
+ * @param visit Callback receiving each point mass
+ */
+export const walkQuadtree = (
+  root: QuadtreeNode,
+  target: Body,
+  theta: number,
+  visit: (position: Vector2, mass: number, source: Body | null) => void
+): void => {
+  const stack: QuadtreeNode[] = [root];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node.mass === 0) continue;
+
+    if (!node.children) {
+      node.bodies.forEach(body => {
+        if (body.id !== target.id) visit(body.position, body.mass, body);
+      });
+      continue;
+    }
+
+    const dx = node.centerOfMass.x - target.position.x;
+    const dy = node.centerOfMass.y - target.position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    // Only approximate cells that are far away and can't contain the target
+    const containsTarget =
+      target.position.x >= node.x && target.position.x < node.x + node.size &&
+      target.position.y >= node.y && target.position.y < node.y + node.size;
+
+    if (!containsTarget && distance > 0 && node.size / distance < theta) {
+      visit(node.centerOfMass, node.mass, null);
+    } else {
+      stack.push(...node.children);
+    }
+  }
+};
+
+/**
+ * Flatten the tree into cell outlines, for drawing
+ */
+export const collectQuadtreeCells = (root: QuadtreeNode): QuadtreeCell[] => {
+  const cells: QuadtreeCell[] = [];
+  const stack: { node: QuadtreeNode; depth: number }[] = [{ node: root, depth: 0 }];
+
+  while (stack.length > 0) {
+    const { node, depth } = stack.pop()!;
+    cells.push({ x: node.x, y: node.y, size: node.size, depth });
+    node.children?.forEach(child => stack.push({ node: child, depth: depth + 1 }));
+  }
+
+  return cells;
+};
@@ -0,0 +1,40 @@
+// Fixed-timestep simulation clock. Wall-clock time only decides how many
+// fixed steps to run; the size of each step never changes, so the same scene
+// always produces the same trajectory regardless of frame rate.
+
+export const DEFAULT_FIXED_TIME_STEP = 1 / 60; // Simulated seconds per physics step
+export const DEFAULT_MAX_SUBSTEPS = 10; // Cap on catch-up steps per frame
+
+export interface ClockAdvance {
+  steps: number; // Number of fixed steps to run this frame
+  accumulator: number; // Leftover simulated time carried to the next frame
+}
+
+/**
+ * Add elapsed simulated time to the accumulator and work out how many fixed
+ * steps to run. When more steps are due than `maxSubsteps` allows (e.g. after
+ * the tab was in the background), the backlog is dropped instead of being
+ * replayed all at once.
+ * @param accumulator Simulated time not yet consumed by previous frames
+ * @param elapsed Simulated time that passed since the previous frame
+ * @param fixedTimeStep Size of each physics step
+ * @param maxSubsteps Maximum number of steps to run in one frame
+ */
+export const advanceClock = (
+  accumulator: number,
+  elapsed: number,
+  fixedTimeStep: number,
+  maxSubsteps: number
+): ClockAdvance => {
+  const total = accumulator + Math.max(0, elapsed);
+  const due = Math.floor(total / fixedTimeStep);
+
+  if (due > maxSubsteps) {
+    return { steps: maxSubsteps, accumulator: 0 };
+  }
+
+  return {
+    steps: due,
+    accumulator: total - due * fixedTimeStep
+  };
+};
@@ -0,0 +1,201 @@
+import { mixColors } from './colors';
+import { CollisionEvent } from './events';
+import { isPinned } from './forces';
+import { Body, SimulationState, StepOptions } from './types';
+
+export type CollisionMode = 'merge' | 'bounce' | 'pass-through';
+
+export const DEFAULT_RESTITUTION = 0.8;
+
+interface CollisionResult {
+  state: SimulationState;
+  events: CollisionEvent[];
+}
+
+/**
+ * Find every pair of overlapping bodies using sort-and-sweep along the x axis
+ * @returns Index pairs into `bodies`
+ */
+const findOverlaps = (bodies: Body[]): [number, number][] => {
+  const order = bodies
+    .map((_, index) => index)
+    .sort((a, b) => (bodies[a].position.x - bodies[a].radius) - (bodies[b].position.x - bodies[b].radius));
+
+  const pairs: [number, number][] = [];
+
+  for (let i = 0; i < order.length; i++) {
+    const first = bodies[order[i]];
+    const maxX = first.position.x + first.radius;
+
+    for (let j = i + 1; j < order.length; j++) {
+      const second = bodies[order[j]];
+      // Sorted by left edge, so nothing further along can overlap `first`
+      if (second.position.x - second.radius > maxX) break;
+
+      const dx = second.position.x - first.position.x;
+      const dy = second.position.y - first.position.y;
+      const reach = first.radius + second.radius;
+
+      if (dx * dx + dy * dy < reach * reach) {
+        pairs.push([order[i], order[j]]);
+      }
+    }
+  }
+
+  return pairs;
+};
+
+/**
+ * Perfectly inelastic merge: mass, charge and momentum are conserved, volume is
+ * conserved for the radius and the colors are blended by mass. The merged
+ * body keeps the id of the pinned or heavier body.
+ */
+const merge = (first: Body, second: Body, options: StepOptions): Body => {
+  const [primary, secondary] =
+    isPinned(second, options) || (!isPinned(first, options) && second.mass > first.mass)
+      ? [second, first]
+      : [first, second];
+
+  const mass = primary.mass + secondary.mass;
+  const pinned = isPinned(primary, options);
+
+  return {
+    ...primary,
+    mass,
+    radius: Math.cbrt(Math.pow(primary.radius, 3) + Math.pow(secondary.radius, 3)),
+    color: primary.color && secondary.color
+      ? mixColors(primary.color, primary.mass, secondary.color, secondary.mass)
+      : primary.color ?? secondary.color,
+    charge: primary.charge !== undefined || secondary.charge !== undefined
+      ? (primary.charge ?? 0) + (secondary.charge ?? 0)
+      : undefined,
+    // A pinned body absorbs the impact without moving
+    position: pinned ? primary.position : {
+      x: (primary.position.x * primary.mass + secondary.position.x * secondary.mass) / mass,
+      y: (primary.position.y * primary.mass + secondary.position.y * secondary.mass) / mass
+    },
+    velocity: pinned ? primary.velocity : {
+      x: (primary.velocity.x * primary.mass + secondary.velocity.x * secondary.mass) / mass,
+      y: (primary.velocity.y * primary.mass + secondary.velocity.y * secondary.mass) / mass
+    }
+  };
+};
+
+/**
+ * Detect and resolve collisions between bodies whose radii overlap
+ * @param state State right after an integration step
+ * @param options Physics options, including the collision mode
+ * @returns The resolved state and one event per collision
+ */
+export const resolveCollisions = (state: SimulationState, options: StepOptions): CollisionResult => {
+  if (options.collisionMode === 'pass-through' || state.bodies.length < 2) {
+    return { state, events: [] };
+  }
+
+  const bodies = state.bodies.map(body => ({ ...body }));
+  const removed = new Set<number>();
+  const events: CollisionEvent[] = [];
+
+  findOverlaps(bodies).forEach(([i, j]) => {
+    if (removed.has(i) || removed.has(j)) return;
+
+    const first = bodies[i];
+    const second = bodies[j];
+
+    const dx = second.position.x - first.position.x;
+    const dy = second.position.y - first.position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1e-9;
+    const normal = { x: dx / distance, y: dy / distance };
+
+    // Closing speed along the line of centers (negative when approaching)
+    const normalSpeed =
+      (second.velocity.x - first.velocity.x) * normal.x +
+      (second.velocity.y - first.velocity.y) * normal.y;
+
+    const contact = {
+      x: first.position.x + normal.x * first.radius,
+      y: first.position.y + normal.y * first.radius
+    };
+
+    if (options.collisionMode === 'merge') {
+      const survivor = merge(first, second, options);
+      const survivorIndex = survivor.id === first.id ? i : j;
+      bodies[survivorIndex] = survivor;
+      removed.add(survivorIndex === i ? j : i);
+
+      events.push({
+        type: 'collision',
+        mode: 'merge',
+        time: state.time,
+        bodyIds: [first.id, second.id],
+        position: contact,
+        relativeSpeed: Math.abs(normalSpeed),
+        survivor
+      });
+      return;
+    }
+
+    // Pinned bodies behave as if infinitely heavy
+    const inverseMass1 = isPinned(first, options) ? 0 : 1 / first.mass;
+    const inverseMass2 = isPinned(second, options) ? 0 : 1 / second.mass;
+    const inverseMassSum = inverseMass1 + inverseMass2;
+    if (inverseMassSum === 0) return;
+
+    // Push the bodies apart so they don't stay stuck together
+    const overlap = first.radius + second.radius - distance;
+    first.position = {
+      x: first.position.x - normal.x * overlap * inverseMass1 / inverseMassSum,
+      y: first.position.y - normal.y * overlap * inverseMass1 / inverseMassSum
+    };
+    second.position = {
+      x: second.position.x + normal.x * overlap * inverseMass2 / inverseMassSum,
+      y: second.position.y + normal.y * overlap * inverseMass2 / inverseMassSum
+    };
+
+    // Only bodies moving towards each other exchange an impulse
+    if (normalSpeed >= 0) return;
+
+    const impulse = -(1 + options.restitution) * normalSpeed / inverseMassSum;
+    first.velocity = {
+      x: first.velocity.x - impulse * inverseMass1 * normal.x,
+      y: first.velocity.y - impulse * inverseMass1 * normal.y
+    };
+    second.velocity = {
+      x: second.velocity.x + impulse * inverseMass2 * normal.x,
+      y: second.velocity.y + impulse * inverseMass2 * normal.y
+    };
+
+    events.push({
+      type: 'collision',
+      mode: 'bounce',
+      time: state.time,
+      bodyIds: [first.id, second.id],
+      position: contact,
+      relativeSpeed: -normalSpeed
+    });
+  });
+
+  // Bodies that orbited an absorbed body now orbit whatever absorbed it
+  const absorbedBy = new Map<string, string>();
+  events.forEach(event => {
+    if (!event.survivor) return;
+    event.bodyIds
+      .filter(id => id !== event.survivor!.id)
+      .forEach(id => absorbedBy.set(id, event.survivor!.id));
+  });
+  const resolveAbsorbed = (id: string): string => absorbedBy.has(id) ? resolveAbsorbed(absorbedBy.get(id)!) : id;
+
+  return {
+    state: {
+      ...state,
+      bodies: bodies
+        .filter((_, index) => !removed.has(index))
+        .map(body => {
+          if (!body.primaryId || !absorbedBy.has(body.primaryId)) return body;
+          const primaryId = resolveAbsorbed(body.primaryId);
+          return { ...body, primaryId: primaryId === body.id ? undefined : primaryId };
+        })
+    },
+    events
+  };
+};
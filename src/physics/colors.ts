@@ -0,0 +1,30 @@
+// Minimal hex color helpers for blending body colors
+
+const parseHex = (color: string): [number, number, number] | null => {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+
+  const hex = match[1].length === 3
+    ? match[1].split('').map(digit => digit + digit).join('')
+    : match[1];
+
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+};
+
+const toHex = (channel: number) => Math.round(channel).toString(16).padStart(2, '0');
+
+/**
+ * Blend two hex colors, weighting each by the given amount. Falls back to the
+ * color with the larger weight if either one can't be parsed.
+ */
+export const mixColors = (first: string, firstWeight: number, second: string, secondWeight: number): string => {
+  const a = parseHex(first);
+  const b = parseHex(second);
+  const total = firstWeight + secondWeight;
+
+  if (!a || !b || total <= 0) {
+    return firstWeight >= secondWeight ? first : second;
+  }
+
+  return '#' + a.map((channel, index) => toHex((channel * firstWeight + b[index] * secondWeight) / total)).join('');
+};
@@ -0,0 +1,164 @@
+import { environmentalPotential } from './environment';
+import { pairPotential } from './forceLaws';
+import { exertsForce, isPinned } from './forces';
+import { SimulationState, StepOptions, Vector2 } from './types';
+
+// Conserved quantities, used to judge whether a scene is numerically healthy.
+// Pinned bodies act as external forces: they break conservation of linear
+// momentum, and of angular momentum unless there is exactly one of them.
+// Environmental forces do the same, and drag also dissipates energy.
+
+export interface ConservationTotals {
+  kineticEnergy: number;
+  potentialEnergy: number;
+  totalEnergy: number;
+  momentum: Vector2 | null; // Null when external forces make it meaningless
+  angularMomentum: number | null; // About the barycenter, the single pinned body or the halo center
+  dissipative: boolean; // Drag is on, so energy is expected to fall
+  energyScale: number; // |KE| + |PE|, used to normalize energy drift
+  momentumScale: number; // Sum of |m·v|
+  angularMomentumScale: number; // Sum of |m·(r × v)|
+}
+
+// Relative change of each quantity since the baseline, as fractions
+export interface ConservationDrift {
+  energy: number | null;
+  momentum: number | null;
+  angularMomentum: number | null;
+}
+
+export interface DiagnosticsSample {
+  time: number;
+  epoch: number; // Changes whenever the baseline is re-taken
+  totals: ConservationTotals;
+  drift: ConservationDrift;
+}
+
+/**
+ * Compute the conserved quantities of a state. Potential energy sums the
+ * enabled force laws at the same Plummer-softened distance as the forces.
+ * Barnes-Hut is ignored here, so its approximation error shows up as drift.
+ * @param state Simulation state to measure
+ * @param options Physics options (G, softening and which pairs interact)
+ */
+export const measureConservation = (state: SimulationState, options: StepOptions): ConservationTotals => {
+  const { bodies } = state;
+  const pinned = bodies.filter(body => isPinned(body, options));
+
+  let kineticEnergy = 0;
+  let potentialEnergy = 0;
+  let totalMass = 0;
+  const momentum = { x: 0, y: 0 };
+  let momentumScale = 0;
+
+  bodies.forEach(body => {
+    const speedSquared = body.velocity.x * body.velocity.x + body.velocity.y * body.velocity.y;
+    kineticEnergy += 0.5 * body.mass * speedSquared;
+    totalMass += body.mass;
+    momentum.x += body.mass * body.velocity.x;
+    momentum.y += body.mass * body.velocity.y;
+    momentumScale += body.mass * Math.sqrt(speedSquared);
+  });
+
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
+      const a = bodies[i];
+      const b = bodies[j];
+      if (!exertsForce(a, b, options) && !exertsForce(b, a, options)) continue;
+
+      potentialEnergy += pairPotential(a, b, options.forceLaws, options);
+    }
+  }
+
+  bodies.forEach(body => {
+    if (!isPinned(body, options)) potentialEnergy += environmentalPotential(body, options);
+  });
+
+  const { environment } = options;
+  const dissipative = environment.dragModel !== 'none';
+  const uniformField = environment.uniformField.x !== 0 || environment.uniformField.y !== 0;
+  const external = pinned.length > 0 || dissipative || uniformField || environment.halo.enabled;
+
+  // Angular momentum is measured about a point that doesn't accelerate
+  let origin: Vector2 | null = null;
+  let originVelocity: Vector2 = { x: 0, y: 0 };
+  if (dissipative || uniformField) {
+    origin = null;
+  } else if (environment.halo.enabled) {
+    // The halo pulls towards its center, which pinned bodies elsewhere would spoil
+    origin = pinned.length === 0 ? environment.halo.center : null;
+  } else if (pinned.length === 1) {
+    origin = pinned[0].position;
+  } else if (pinned.length === 0 && totalMass > 0) {
+    origin = {
+      x: bodies.reduce((sum, body) => sum + body.mass * body.position.x, 0) / totalMass,
+      y: bodies.reduce((sum, body) => sum + body.mass * body.position.y, 0) / totalMass
+    };
+    originVelocity = { x: momentum.x / totalMass, y: momentum.y / totalMass };
+  }
+
+  let angularMomentum = 0;
+  let angularMomentumScale = 0;
+  if (origin) {
+    const center = origin;
+    bodies.forEach(body => {
+      const rx = body.position.x - center.x;
+      const ry = body.position.y - center.y;
+      const vx = body.velocity.x - originVelocity.x;
+      const vy = body.velocity.y - originVelocity.y;
+      const contribution = body.mass * (rx * vy - ry * vx);
+      angularMomentum += contribution;
+      angularMomentumScale += Math.abs(contribution);
+    });
+  }
+
+  return {
+    kineticEnergy,
+    potentialEnergy,
+    totalEnergy: kineticEnergy + potentialEnergy,
+    momentum: external ? null : momentum,
+    angularMomentum: origin ? angularMomentum : null,
+    dissipative,
+    energyScale: Math.abs(kineticEnergy) + Math.abs(potentialEnergy),
+    momentumScale,
+    angularMomentumScale
+  };
+};
+
+// |change| / scale, or 0 when there is nothing to compare against
+const relativeChange = (change: number, scale: number): number => {
+  return scale > 0 ? Math.abs(change) / scale : 0;
+};
+
+/**
+ * Relative drift of `current` from `baseline`. Each quantity is normalized by
+ * the baseline's magnitude scale rather than its value, since totals such as
+ * the momentum of a system at rest are legitimately zero.
+ */
+export const conservationDrift = (current: ConservationTotals, baseline: ConservationTotals): ConservationDrift => {
+  const momentum = current.momentum && baseline.momentum
+    ? relativeChange(
+      Math.hypot(current.momentum.x - baseline.momentum.x, current.momentum.y - baseline.momentum.y),
+      baseline.momentumScale
+    )
+    : null;
+
+  const angularMomentum = current.angularMomentum !== null && baseline.angularMomentum !== null
+    ? relativeChange(current.angularMomentum - baseline.angularMomentum, baseline.angularMomentumScale)
+    : null;
+
+  return {
+    energy: current.dissipative
+      ? null
+      : relativeChange(current.totalEnergy - baseline.totalEnergy, baseline.energyScale),
+    momentum,
+    angularMomentum
+  };
+};
+
+/**
+ * Largest drift of any tracked quantity
+ */
+export const maxDrift = (drift: ConservationDrift): number => {
+  return Math.max(drift.energy ?? 0, drift.momentum ?? 0, drift.angularMomentum ?? 0);
+};
@@ -0,0 +1,44 @@
+import { Body } from './types';
+
+// How far a forked run has drifted from the original
+export interface Divergence {
+  rms: number; // Root-mean-square distance between matching bodies
+  max: number; // Largest distance between a matching pair
+  bodyId: string | null; // Body that drifted furthest
+  unmatched: number; // Bodies present in only one of the runs, e.g. merged in just one
+}
+
+/**
+ * Compare two runs of the same scene body by body, matching bodies by id.
+ * Both lists should be taken at the same simulation time.
+ * @param original Bodies of the original run
+ * @param fork Bodies of the forked run
+ */
+export const measureDivergence = (original: Body[], fork: Body[]): Divergence => {
+  const forkById = new Map(fork.map(body => [body.id, body]));
+
+  let sumSquares = 0;
+  let matched = 0;
+  let max = 0;
+  let bodyId: string | null = null;
+
+  original.forEach(body => {
+    const twin = forkById.get(body.id);
+    if (!twin) return;
+
+    const distance = Math.hypot(twin.position.x - body.position.x, twin.position.y - body.position.y);
+    sumSquares += distance * distance;
+    matched++;
+    if (distance > max || bodyId === null) {
+      max = distance;
+      bodyId = body.id;
+    }
+  });
+
+  return {
+    rms: matched > 0 ? Math.sqrt(sumSquares / matched) : 0,
+    max,
+    bodyId,
+    unmatched: original.length + fork.length - 2 * matched
+  };
+};
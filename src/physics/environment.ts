@@ -0,0 +1,154 @@
+import { CANVAS_CENTER_X, CANVAS_CENTER_Y } from '../types/canvas';
+import { Body, StepOptions, Vector2 } from './types';
+
+// Environmental forces act on every free body independently of the others:
+// drag from a surrounding medium, a uniform gravitational field and the pull
+// of a static dark-matter halo. They are configured per scene.
+
+export type DragModel = 'none' | 'linear' | 'quadratic';
+export type HaloProfile = 'isothermal' | 'nfw' | 'plummer';
+export type EnvironmentalForceType = 'drag' | 'uniform-field' | 'halo';
+
+export interface HaloSettings {
+  enabled: boolean;
+  profile: HaloProfile; // Density profile, which decides how enclosed mass grows with radius
+  center: Vector2; // Canvas position of the halo center
+  mass: number; // Characteristic mass of the profile
+  scaleRadius: number; // Core or scale radius, in canvas units
+}
+
+export interface EnvironmentSettings {
+  dragModel: DragModel;
+  dragCoefficient: number; // c in F = -c·v (linear) or F = -c·|v|·v (quadratic)
+  uniformField: Vector2; // Acceleration applied to every body, F = m·g
+  halo: HaloSettings;
+}
+
+export const DEFAULT_ENVIRONMENT: EnvironmentSettings = {
+  dragModel: 'none',
+  dragCoefficient: 0.05,
+  uniformField: { x: 0, y: 0 },
+  halo: {
+    enabled: false,
+    profile: 'isothermal',
+    center: { x: CANVAS_CENTER_X, y: CANVAS_CENTER_Y },
+    mass: 2000,
+    scaleRadius: 300
+  }
+};
+
+// Force from one environmental source on one body, for visualization
+export interface EnvironmentalForce {
+  bodyId: string;
+  type: EnvironmentalForceType;
+  forceX: number;
+  forceY: number;
+}
+
+export const HALO_PROFILES: Record<HaloProfile, {
+  label: string;
+  // Mass enclosed within x = r / scaleRadius, as a multiple of the halo mass
+  enclosedMass: (x: number) => number;
+  // Potential at x, in units of G·mass / scaleRadius
+  potential: (x: number) => number;
+}> = {
+  // Pseudo-isothermal sphere, ρ ∝ 1 / (1 + x²). Gives flat rotation curves.
+  isothermal: {
+    label: 'Isothermal',
+    enclosedMass: x => x - Math.atan(x),
+    potential: x => (x === 0 ? 1 : Math.atan(x) / x) + 0.5 * Math.log(1 + x * x)
+  },
+  // Navarro-Frenk-White, ρ ∝ 1 / (x·(1 + x)²)
+  nfw: {
+    label: 'NFW',
+    enclosedMass: x => Math.log(1 + x) - x / (1 + x),
+    potential: x => (x === 0 ? -1 : -Math.log(1 + x) / x)
+  },
+  // Plummer sphere, ρ ∝ (1 + x²)^(-5/2)
+  plummer: {
+    label: 'Plummer',
+    enclosedMass: x => Math.pow(x, 3) / Math.pow(1 + x * x, 1.5),
+    potential: x => -1 / Math.sqrt(1 + x * x)
+  }
+};
+
+/**
+ * Whether any environmental force is switched on
+ */
+export const hasEnvironmentalForces = (environment: EnvironmentSettings): boolean => {
+  return environment.dragModel !== 'none' ||
+    environment.uniformField.x !== 0 ||
+    environment.uniformField.y !== 0 ||
+    environment.halo.enabled;
+};
+
+const dragForce = (body: Body, environment: EnvironmentSettings): Vector2 | null => {
+  if (environment.dragModel === 'none') return null;
+
+  const { x, y } = body.velocity;
+  const factor = environment.dragModel === 'linear'
+    ? environment.dragCoefficient
+    : environment.dragCoefficient * Math.hypot(x, y);
+
+  return { x: -factor * x, y: -factor * y };
+};
+
+const uniformFieldForce = (body: Body, environment: EnvironmentSettings): Vector2 | null => {
+  const { uniformField } = environment;
+  if (uniformField.x === 0 && uniformField.y === 0) return null;
+
+  return { x: body.mass * uniformField.x, y: body.mass * uniformField.y };
+};
+
+const haloForce = (body: Body, environment: EnvironmentSettings, G: number): Vector2 | null => {
+  const { halo } = environment;
+  if (!halo.enabled) return null;
+
+  const dx = halo.center.x - body.position.x;
+  const dy = halo.center.y - body.position.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance === 0) return null;
+
+  // Only the mass inside the body's radius pulls on it (shell theorem)
+  const enclosed = halo.mass * HALO_PROFILES[halo.profile].enclosedMass(distance / halo.scaleRadius);
+  const force = G * body.mass * enclosed / (distance * distance);
+
+  return { x: force * dx / distance, y: force * dy / distance };
+};
+
+/**
+ * Call `visit` with every environmental force acting on `body`
+ */
+export const forEachEnvironmentalForce = (
+  body: Body,
+  options: StepOptions,
+  visit: (type: EnvironmentalForceType, force: Vector2) => void
+): void => {
+  const { environment } = options;
+
+  const drag = dragForce(body, environment);
+  if (drag) visit('drag', drag);
+
+  const field = uniformFieldForce(body, environment);
+  if (field) visit('uniform-field', field);
+
+  const halo = haloForce(body, environment, options.G);
+  if (halo) visit('halo', halo);
+};
+
+/**
+ * Potential energy of a body in the conservative environmental fields (the
+ * uniform field and the halo). Drag has no potential.
+ */
+export const environmentalPotential = (body: Body, options: StepOptions): number => {
+  const { uniformField, halo } = options.environment;
+  let potential = -body.mass * (uniformField.x * body.position.x + uniformField.y * body.position.y);
+
+  if (halo.enabled) {
+    const distance = Math.hypot(body.position.x - halo.center.x, body.position.y - halo.center.y);
+    const x = distance / halo.scaleRadius;
+    potential += options.G * halo.mass * body.mass / halo.scaleRadius * HALO_PROFILES[halo.profile].potential(x);
+  }
+
+  return potential;
+};
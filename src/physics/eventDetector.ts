@@ -0,0 +1,197 @@
+import { BoundaryEvent, CloseApproachEvent, OrbitChangeEvent } from './events';
+import { Body, SimulationState } from './types';
+
+// Watches the state as the simulation advances for notable changes: close approaches,
+// bodies escaping from or being captured by their primary, and bodies leaving
+// the canvas. Collisions and burns are reported where they happen instead.
+
+export type DetectedEvent = CloseApproachEvent | OrbitChangeEvent | BoundaryEvent;
+
+export interface EventDetectorOptions {
+  G: number;
+  closeApproachDistance: number; // Surface gap below which a pair counts as a close approach
+  bounds: { width: number; height: number }; // Area bodies are expected to stay in
+}
+
+interface Approach {
+  closest: CloseApproachEvent; // Closest point seen so far, reported once the pair separates
+  reported: boolean; // Whether closest approach has been reported yet
+}
+
+interface OrbitStatus {
+  primaryId: string;
+  bound: boolean;
+}
+
+export interface EventDetectorState {
+  approaches: Map<number, Approach>; // Pairs currently within the distance, by pair key
+  orbits: Record<string, OrbitStatus>; // Last known bound state of each body
+  outside: Record<string, boolean>; // Bodies currently off the canvas
+  numbers: Map<string, number>; // Stable number of each body seen so far, for pair keys
+}
+
+// A pair has to separate this much beyond the threshold before it can be reported again
+const APPROACH_HYSTERESIS = 1.5;
+
+// Energy must cross zero by this fraction of μ/r to count as a change, so
+// bodies sitting right at escape speed don't flicker between the two
+const ENERGY_MARGIN = 0.01;
+
+// Pair keys combine two body numbers, so at most this many bodies get one
+const MAX_NUMBERED_BODIES = 0x200000;
+
+export const createEventDetector = (): EventDetectorState => ({
+  approaches: new Map(),
+  orbits: {},
+  outside: {},
+  numbers: new Map()
+});
+
+const pairKey = (a: number, b: number) => Math.min(a, b) * MAX_NUMBERED_BODIES + Math.max(a, b);
+
+/**
+ * The primary of every body, as `findPrimary` picks it, found in one pass:
+ * the assigned primary if present, otherwise the heaviest other body
+ */
+const findPrimaries = (bodies: Body[]): (Body | undefined)[] => {
+  const byId = new Map(bodies.map(body => [body.id, body]));
+  let heaviest: Body | undefined;
+  let runnerUp: Body | undefined;
+  bodies.forEach(body => {
+    if (!heaviest || body.mass > heaviest.mass) {
+      runnerUp = heaviest;
+      heaviest = body;
+    } else if (!runnerUp || body.mass > runnerUp.mass) {
+      runnerUp = body;
+    }
+  });
+
+  return bodies.map(body => {
+    const assigned = body.primaryId !== undefined && body.primaryId !== body.id ? byId.get(body.primaryId) : undefined;
+    return assigned ?? (body === heaviest ? runnerUp : heaviest);
+  });
+};
+
+const surfaceGap = (a: Body, b: Body): number => {
+  return Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y) - a.radius - b.radius;
+};
+
+/**
+ * Compare the state after a step with what the detector saw before and
+ * report what changed. Bodies seen for the first time only set up the
+ * detector, so loading a scene doesn't produce a burst of events.
+ * @returns The updated detector and the events, in body order
+ */
+export const detectEvents = (
+  state: SimulationState,
+  detector: EventDetectorState,
+  options: EventDetectorOptions
+): { detector: EventDetectorState; events: DetectedEvent[] } => {
+  const events: DetectedEvent[] = [];
+  const { bodies, time } = state;
+
+  const numbers = new Map(detector.numbers);
+  const bodyNumbers = bodies.map(body => {
+    let number = numbers.get(body.id);
+    if (number === undefined) {
+      number = numbers.size;
+      numbers.set(body.id, number);
+    }
+    return number;
+  });
+
+  // Close approaches are reported once per pass, at the smallest gap. Pairs
+  // beyond the hysteresis distance are dropped before their key is looked up.
+  const approaches = new Map<number, Approach>();
+  const releaseDistance = options.closeApproachDistance * APPROACH_HYSTERESIS;
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
+      const a = bodies[i];
+      const b = bodies[j];
+      const gap = surfaceGap(a, b);
+      if (gap > releaseDistance) continue;
+
+      const key = pairKey(bodyNumbers[i], bodyNumbers[j]);
+      const previous = detector.approaches.get(key);
+      const closest: CloseApproachEvent = {
+        type: 'close-approach',
+        time,
+        bodyIds: [a.id, b.id],
+        position: { x: (a.position.x + b.position.x) / 2, y: (a.position.y + b.position.y) / 2 },
+        distance: Math.max(0, gap)
+      };
+
+      if (!previous) {
+        if (gap < options.closeApproachDistance) approaches.set(key, { closest, reported: false });
+        continue;
+      }
+
+      if (gap < previous.closest.distance) {
+        approaches.set(key, { closest, reported: false });
+      } else if (!previous.reported) {
+        // Moving apart again, so the closest point has been passed
+        events.push(previous.closest);
+        approaches.set(key, { ...previous, reported: true });
+      } else {
+        approaches.set(key, previous);
+      }
+    }
+  }
+
+  // Detection doesn't run after every step, so a fast pair can be past the
+  // hysteresis distance before it was seen separating. Report its closest
+  // point on release, unless one of the bodies is gone (it collided).
+  const ids = new Set(bodies.map(body => body.id));
+  detector.approaches.forEach((previous, key) => {
+    if (previous.reported || approaches.has(key)) return;
+    if (previous.closest.bodyIds.every(id => ids.has(id))) events.push(previous.closest);
+  });
+
+  const orbits: Record<string, OrbitStatus> = {};
+  const outside: Record<string, boolean> = {};
+  const primaries = findPrimaries(bodies);
+  bodies.forEach((body, index) => {
+    if (body.isFixed) return;
+
+    // Bound or unbound relative to the primary, by the sign of the two-body energy
+    const primary = primaries[index];
+    if (primary) {
+      const dx = body.position.x - primary.position.x;
+      const dy = body.position.y - primary.position.y;
+      const vx = body.velocity.x - primary.velocity.x;
+      const vy = body.velocity.y - primary.velocity.y;
+      const potential = options.G * primary.mass / Math.max(Math.hypot(dx, dy), 1e-9);
+      const energy = (vx * vx + vy * vy) / 2 - potential;
+
+      const previous = detector.orbits[body.id];
+      let bound = energy < 0;
+      if (previous && previous.primaryId === primary.id) {
+        bound = previous.bound ? energy < potential * ENERGY_MARGIN : energy < -potential * ENERGY_MARGIN;
+        if (bound !== previous.bound) {
+          events.push({
+            type: bound ? 'capture' : 'escape',
+            time,
+            bodyIds: [body.id, primary.id],
+            position: body.position,
+            specificEnergy: energy
+          });
+        }
+      }
+      orbits[body.id] = { primaryId: primary.id, bound };
+    }
+
+    // Leaving the canvas is reported when the body crosses the edge
+    const isOutside = body.position.x < 0 || body.position.y < 0 ||
+      body.position.x > options.bounds.width || body.position.y > options.bounds.height;
+    if (isOutside) {
+      outside[body.id] = true;
+      if (detector.outside[body.id] === false) {
+        events.push({ type: 'left-canvas', time, bodyIds: [body.id], position: body.position });
+      }
+    } else {
+      outside[body.id] = false;
+    }
+  });
+
+  return { detector: { approaches, orbits, outside, numbers }, events };
+};
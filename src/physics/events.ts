@@ -0,0 +1,51 @@
+import { Body, Vector2 } from './types';
+
+// Notable things that happen during a step, reported back to the UI
+
+export interface CollisionEvent {
+  type: 'collision';
+  mode: 'merge' | 'bounce';
+  time: number; // Simulated time of the collision
+  bodyIds: [string, string];
+  position: Vector2; // Contact point
+  relativeSpeed: number; // Closing speed along the line of centers
+  survivor?: Body; // Resulting body when the pair merged
+}
+
+export interface ManeuverEvent {
+  type: 'maneuver';
+  time: number; // Simulated time the burn was executed
+  bodyIds: [string]; // The body that burned
+  position: Vector2; // Where the burn happened
+  nodeId: string; // Maneuver node that fired
+  scheduledTime: number; // Time the node was scheduled for
+  overdue: boolean; // Scheduled before the step it fired in, so it fired late
+  deltaV: Vector2; // Applied change in velocity
+}
+
+export interface CloseApproachEvent {
+  type: 'close-approach';
+  time: number; // Simulated time of closest approach
+  bodyIds: [string, string];
+  position: Vector2; // Midpoint between the bodies at closest approach
+  distance: number; // Smallest gap between their surfaces
+}
+
+export interface OrbitChangeEvent {
+  type: 'escape' | 'capture'; // Bound to unbound, or the other way round
+  time: number;
+  bodyIds: [string, string]; // The body and its primary
+  position: Vector2; // Where the body was at the change
+  specificEnergy: number; // Orbital energy per unit mass after the change
+}
+
+export interface BoundaryEvent {
+  type: 'left-canvas';
+  time: number;
+  bodyIds: [string];
+  position: Vector2; // Where the body crossed the edge
+}
+
+export type SimulationEvent = CollisionEvent | ManeuverEvent | CloseApproachEvent | OrbitChangeEvent | BoundaryEvent;
+
+export type SimulationEventType = SimulationEvent['type'];
@@ -0,0 +1,124 @@
+import { centralForce } from './gravity';
+import { Body, StepOptions, Vector2 } from './types';
+
+// Registry of pairwise force laws. The physics step sums every enabled law for
+// each interacting pair, so several can be active at once (e.g. gravity plus
+// Coulomb). All laws are central and use the same Plummer-softened distance.
+
+export type ForceLawType = 'inverse-square' | 'coulomb' | 'yukawa' | 'power-law';
+
+// Per-body quantities a law can depend on
+export type BodyProperty = 'mass' | 'charge';
+
+// Tunable constants of the non-Newtonian laws
+export interface ForceLawParameters {
+  coulombConstant: number; // k in F = k·q·Q / r²
+  yukawaRange: number; // Screening length λ, in canvas units
+  powerLawExponent: number; // n in F = G·m·M / rⁿ
+}
+
+export const DEFAULT_FORCE_LAW_PARAMETERS: ForceLawParameters = {
+  coulombConstant: 100,
+  yukawaRange: 200,
+  powerLawExponent: 2.5
+};
+
+export interface ForceLaw {
+  label: string;
+  bodyProperties: BodyProperty[]; // Body properties the law reads
+  // Attractive force magnitude at softened distance s (negative repels)
+  magnitude: (distance: number, target: Body, source: Body, options: StepOptions) => number;
+  // Potential energy of the pair at softened distance s, for diagnostics
+  potential: (distance: number, target: Body, source: Body, options: StepOptions) => number;
+}
+
+const charge = (body: Body): number => body.charge ?? 0;
+
+export const FORCE_LAWS: Record<ForceLawType, ForceLaw> = {
+  'inverse-square': {
+    label: 'Gravity (1/r²)',
+    bodyProperties: ['mass'],
+    magnitude: (s, target, source, { G }) => G * target.mass * source.mass / (s * s),
+    potential: (s, target, source, { G }) => -G * target.mass * source.mass / s
+  },
+  coulomb: {
+    label: 'Coulomb',
+    bodyProperties: ['charge'],
+    // Like charges repel, so the attractive magnitude is negated
+    magnitude: (s, target, source, { forceLawParameters }) =>
+      -forceLawParameters.coulombConstant * charge(target) * charge(source) / (s * s),
+    potential: (s, target, source, { forceLawParameters }) =>
+      forceLawParameters.coulombConstant * charge(target) * charge(source) / s
+  },
+  yukawa: {
+    label: 'Yukawa',
+    bodyProperties: ['mass'],
+    // Gradient of the screened potential -G·m·M·e^(-r/λ) / r
+    magnitude: (s, target, source, { G, forceLawParameters }) => {
+      const range = forceLawParameters.yukawaRange;
+      return G * target.mass * source.mass * Math.exp(-s / range) * (1 + s / range) / (s * s);
+    },
+    potential: (s, target, source, { G, forceLawParameters }) =>
+      -G * target.mass * source.mass * Math.exp(-s / forceLawParameters.yukawaRange) / s
+  },
+  'power-law': {
+    label: 'Power Law (1/rⁿ)',
+    bodyProperties: ['mass'],
+    magnitude: (s, target, source, { G, forceLawParameters }) =>
+      G * target.mass * source.mass / Math.pow(s, forceLawParameters.powerLawExponent),
+    potential: (s, target, source, { G, forceLawParameters }) => {
+      const n = forceLawParameters.powerLawExponent;
+      const strength = G * target.mass * source.mass;
+      return n === 1 ? strength * Math.log(s) : -strength * Math.pow(s, 1 - n) / (n - 1);
+    }
+  }
+};
+
+/**
+ * Total force that `source` exerts on `target` under the given laws, or null
+ * when no law applies or the two coincide
+ */
+export const pairForce = (
+  target: Body,
+  source: Body,
+  laws: ForceLawType[],
+  options: StepOptions
+): Vector2 | null => {
+  let total: Vector2 | null = null;
+
+  for (const type of laws) {
+    const law = FORCE_LAWS[type];
+    const force = centralForce(target.position, source.position, options.softening, distance => {
+      return law.magnitude(distance, target, source, options);
+    });
+    if (!force) continue;
+
+    total = total ? { x: total.x + force.x, y: total.y + force.y } : force;
+  }
+
+  return total;
+};
+
+/**
+ * Potential energy of a pair under the given laws
+ */
+export const pairPotential = (
+  target: Body,
+  source: Body,
+  laws: ForceLawType[],
+  options: StepOptions
+): number => {
+  const dx = source.position.x - target.position.x;
+  const dy = source.position.y - target.position.y;
+  const distance = Math.sqrt(dx * dx + dy * dy + options.softening * options.softening);
+  if (distance === 0) return 0;
+
+  return laws.reduce((sum, type) => sum + FORCE_LAWS[type].potential(distance, target, source, options), 0);
+};
+
+/**
+ * Body properties needed by any of the given laws
+ */
+export const requiredBodyProperties = (laws: ForceLawType[]): BodyProperty[] => {
+  return Array.from(new Set(laws.flatMap(type => FORCE_LAWS[type].bodyProperties)));
+};
@@ -0,0 +1,161 @@
+import { buildQuadtree, walkQuadtree } from './barnesHut';
+import { EnvironmentalForce, forEachEnvironmentalForce } from './environment';
+import { ForceLawType, pairForce } from './forceLaws';
+import { gravitationalForce } from './gravity';
+import { Body, ForceContribution, SimulationState, StepOptions, Vector2 } from './types';
+
+export type ForceSolverType = 'direct' | 'barnes-hut';
+
+/**
+ * Whether a body is held in place and skipped by the integrators
+ */
+export const isPinned = (body: Body, options: Pick<StepOptions, 'barycentric'>): boolean => {
+  return !options.barycentric && !!body.isFixed;
+};
+
+/**
+ * Whether `source` pulls on `target` under the given options
+ */
+export const exertsForce = (source: Body, target: Body, options: StepOptions): boolean => {
+  if (source.id === target.id) return false;
+  // Without planetary forces a body is only attracted by its own primary
+  return options.planetaryForces || source.id === target.primaryId;
+};
+
+/**
+ * Whether the quadtree should be used. It only pays off when every body pulls
+ * on every other one; with planetary forces off there is a single source.
+ * Cells only aggregate mass, so the tree only handles inverse-square gravity.
+ */
+const usesBarnesHut = (options: StepOptions): boolean => {
+  return options.forceSolver === 'barnes-hut' &&
+    options.planetaryForces &&
+    options.forceLaws.includes('inverse-square');
+};
+
+/**
+ * Call `visit` with every force acting on each free body. Sources are the
+ * individual bodies for direct summation, with all enabled laws summed per
+ * pair. With Barnes-Hut, gravity from aggregated cells is reported with a
+ * null source and the remaining laws are still summed directly.
+ */
+const forEachForce = (
+  state: SimulationState,
+  options: StepOptions,
+  visit: (target: Body, targetIndex: number, force: Vector2, source: Body | null) => void
+): void => {
+  const tree = usesBarnesHut(options) ? buildQuadtree(state.bodies) : null;
+  const directLaws: ForceLawType[] = tree
+    ? options.forceLaws.filter(law => law !== 'inverse-square')
+    : options.forceLaws;
+
+  state.bodies.forEach((body, index) => {
+    if (isPinned(body, options)) return;
+
+    if (tree) {
+      walkQuadtree(tree, body, options.theta, (position, mass, source) => {
+        const force = gravitationalForce(body, position, mass, options.G, options.softening);
+        if (force) visit(body, index, force, source);
+      });
+    }
+    if (directLaws.length === 0) return;
+
+    state.bodies.forEach(other => {
+      if (!exertsForce(other, body, options)) return;
+
+      const force = pairForce(body, other, directLaws, options);
+      if (force) visit(body, index, force, other);
+    });
+  });
+};
+
+/**
+ * Calculate the acceleration of every body in the state
+ * @param state Current simulation state
+ * @param options Physics options
+ * @returns Accelerations, in the same order as `state.bodies`
+ */
+export const computeAccelerations = (state: SimulationState, options: StepOptions): Vector2[] => {
+  const totals = state.bodies.map(() => ({ x: 0, y: 0 }));
+
+  forEachForce(state, options, (_, index, force) => {
+    totals[index].x += force.x;
+    totals[index].y += force.y;
+  });
+
+  state.bodies.forEach((body, index) => {
+    if (isPinned(body, options)) return;
+
+    forEachEnvironmentalForce(body, options, (_, force) => {
+      totals[index].x += force.x;
+      totals[index].y += force.y;
+    });
+  });
+
+  // F = ma, so a = F/m
+  return totals.map((total, index) => ({
+    x: total.x / state.bodies[index].mass,
+    y: total.y / state.bodies[index].mass
+  }));
+};
+
+/**
+ * List the individual forces acting on the free bodies, for visualization.
+ * With Barnes-Hut only the body-to-body interactions are listed; forces from
+ * aggregated cells have no single source to draw.
+ * @param state Current simulation state
+ * @param options Physics options
+ * @returns One entry per (target, source) pair that interacts
+ */
+export const computeForceContributions = (
+  state: SimulationState,
+  options: StepOptions
+): ForceContribution[] => {
+  // Keyed by pair, since Barnes-Hut gravity and the direct laws report separately
+  const contributions = new Map<string, ForceContribution>();
+
+  forEachForce(state, options, (target, _, force, source) => {
+    if (!source) return;
+
+    const key = `${target.id}|${source.id}`;
+    const existing = contributions.get(key);
+    if (existing) {
+      existing.forceX += force.x;
+      existing.forceY += force.y;
+      return;
+    }
+
+    contributions.set(key, {
+      targetId: target.id,
+      sourceId: source.id,
+      forceX: force.x,
+      forceY: force.y
+    });
+  });
+
+  return Array.from(contributions.values());
+};
+
+/**
+ * List the environmental forces (drag, uniform field, halo) acting on the
+ * free bodies, for visualization
+ * @param state Current simulation state
+ * @param options Physics options
+ * @returns One entry per body and active environmental force
+ */
+export const computeEnvironmentalForces = (
+  state: SimulationState,
+  options: StepOptions
+): EnvironmentalForce[] => {
+  const forces: EnvironmentalForce[] = [];
+
+  state.bodies.forEach(body => {
+    if (isPinned(body, options)) return;
+
+    forEachEnvironmentalForce(body, options, (type, force) => {
+      forces.push({ bodyId: body.id, type, forceX: force.x, forceY: force.y });
+    });
+  });
+
+  return forces;
+};
@@ -0,0 +1,53 @@
+import { Body, Vector2 } from './types';
+
+// Default Plummer softening length, in canvas units. Roughly the radius of a
+// small planet, so forces stay finite during close passes.
+export const DEFAULT_SOFTENING = 10;
+
+/**
+ * Force on a point at `target` directed along the line to `source`, with a
+ * magnitude that depends on the softened distance s = sqrt(r² + ε²).
+ * Positive magnitudes attract, negative ones repel. The direction is scaled
+ * by r / s, so with F(s) = k / s² this is exactly Plummer softening.
+ * Returns null only when the points coincide and ε is zero.
+ * @param magnitude Force magnitude as a function of the softened distance
+ * @param softening Plummer softening length ε
+ */
+export const centralForce = (
+  target: Vector2,
+  source: Vector2,
+  softening: number,
+  magnitude: (distance: number) => number
+): Vector2 | null => {
+  const dx = source.x - target.x;
+  const dy = source.y - target.y;
+  const distance = Math.sqrt(dx * dx + dy * dy + softening * softening);
+
+  if (distance === 0) return null;
+
+  const scale = magnitude(distance) / distance;
+
+  return {
+    x: scale * dx,
+    y: scale * dy
+  };
+};
+
+/**
+ * Gravitational force that a point mass at `sourcePosition` exerts on
+ * `target`, using Plummer softening: F = G·m·M·r / (r² + ε²)^(3/2).
+ * The force fades smoothly to zero as the two points meet instead of
+ * blowing up. Returns null only when the points coincide and ε is zero.
+ * @param softening Plummer softening length ε
+ */
+export const gravitationalForce = (
+  target: Body,
+  sourcePosition: Vector2,
+  sourceMass: number,
+  G: number,
+  softening: number
+): Vector2 | null => {
+  return centralForce(target.position, sourcePosition, softening, distance => {
+    return G * target.mass * sourceMass / (distance * distance);
+  });
+};
@@ -0,0 +1,27 @@
+export * from './types';
+export * from './adaptive';
+export * from './barnesHut';
+export * from './clock';
+export * from './collisions';
+export * from './colors';
+export * from './diagnostics';
+export * from './divergence';
+export * from './environment';
+export * from './eventDetector';
+export * from './events';
+export * from './forceLaws';
+export * from './forces';
+export * from './gravity';
+export * from './integrators';
+export * from './kepler';
+export * from './kinematics';
+export * from './lagrange';
+export * from './lambert';
+export * from './maneuvers';
+export * from './orbitalElements';
+export * from './predict';
+export * from './random';
+export * from './step';
+export * from './timeline';
+export * from './transfers';
+export * from './workerProtocol';
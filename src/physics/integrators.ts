@@ -0,0 +1,184 @@
+import { computeAccelerations, isPinned } from './forces';
+import { Body, SimulationState, StepOptions, Vector2 } from './types';
+
+export type IntegratorType = 'euler' | 'verlet' | 'leapfrog' | 'rk4';
+
+// Advances a state by `dt` without mutating it
+export type Integrator = (state: SimulationState, dt: number, options: StepOptions) => SimulationState;
+
+/**
+ * Move every free body by `velocities * dt` and accelerate it by
+ * `accelerations * dt`. Pinned bodies are left untouched.
+ */
+const advance = (
+  state: SimulationState,
+  velocities: Vector2[],
+  accelerations: Vector2[],
+  dt: number,
+  options: StepOptions
+): SimulationState => ({
+  bodies: state.bodies.map((body, index): Body => {
+    if (isPinned(body, options)) return body;
+
+    return {
+      ...body,
+      position: {
+        x: body.position.x + velocities[index].x * dt,
+        y: body.position.y + velocities[index].y * dt
+      },
+      velocity: {
+        x: body.velocity.x + accelerations[index].x * dt,
+        y: body.velocity.y + accelerations[index].y * dt
+      }
+    };
+  }),
+  time: state.time + dt
+});
+
+/**
+ * Semi-implicit (symplectic) Euler: update velocity first, then position
+ * with the new velocity. One force evaluation per step.
+ */
+const euler: Integrator = (state, dt, options) => {
+  const accelerations = computeAccelerations(state, options);
+
+  const bodies = state.bodies.map((body, index) => {
+    if (isPinned(body, options)) return body;
+
+    const velocity = {
+      x: body.velocity.x + accelerations[index].x * dt,
+      y: body.velocity.y + accelerations[index].y * dt
+    };
+
+    return {
+      ...body,
+      velocity,
+      position: {
+        x: body.position.x + velocity.x * dt,
+        y: body.position.y + velocity.y * dt
+      }
+    };
+  });
+
+  return { bodies, time: state.time + dt };
+};
+
+/**
+ * Velocity Verlet: full position update using the current acceleration, then
+ * a velocity update with the average of the old and new accelerations.
+ */
+const verlet: Integrator = (state, dt, options) => {
+  const initialAccelerations = computeAccelerations(state, options);
+
+  const moved: SimulationState = {
+    ...state,
+    bodies: state.bodies.map((body, index) => {
+      if (isPinned(body, options)) return body;
+
+      return {
+        ...body,
+        position: {
+          x: body.position.x + body.velocity.x * dt + 0.5 * initialAccelerations[index].x * dt * dt,
+          y: body.position.y + body.velocity.y * dt + 0.5 * initialAccelerations[index].y * dt * dt
+        }
+      };
+    })
+  };
+
+  const finalAccelerations = computeAccelerations(moved, options);
+
+  const bodies = moved.bodies.map((body, index) => {
+    if (isPinned(body, options)) return body;
+
+    return {
+      ...body,
+      velocity: {
+        x: body.velocity.x + 0.5 * (initialAccelerations[index].x + finalAccelerations[index].x) * dt,
+        y: body.velocity.y + 0.5 * (initialAccelerations[index].y + finalAccelerations[index].y) * dt
+      }
+    };
+  });
+
+  return { bodies, time: state.time + dt };
+};
+
+/**
+ * Leapfrog in drift-kick-drift form: half a step of motion, a full velocity
+ * kick at the midpoint, then the second half of the motion.
+ */
+const leapfrog: Integrator = (state, dt, options) => {
+  const drift = (current: SimulationState): SimulationState => ({
+    ...current,
+    bodies: current.bodies.map(body => {
+      if (isPinned(body, options)) return body;
+
+      return {
+        ...body,
+        position: {
+          x: body.position.x + body.velocity.x * dt / 2,
+          y: body.position.y + body.velocity.y * dt / 2
+        }
+      };
+    })
+  });
+
+  const midpoint = drift(state);
+  const accelerations = computeAccelerations(midpoint, options);
+
+  const kicked: SimulationState = {
+    ...midpoint,
+    bodies: midpoint.bodies.map((body, index) => {
+      if (isPinned(body, options)) return body;
+
+      return {
+        ...body,
+        velocity: {
+          x: body.velocity.x + accelerations[index].x * dt,
+          y: body.velocity.y + accelerations[index].y * dt
+        }
+      };
+    })
+  };
+
+  return { ...drift(kicked), time: state.time + dt };
+};
+
+/**
+ * Classic 4th-order Runge-Kutta over the whole system. Four force
+ * evaluations per step; very accurate over short spans but not symplectic.
+ */
+const rk4: Integrator = (state, dt, options) => {
+  const velocitiesOf = (current: SimulationState) => current.bodies.map(body => body.velocity);
+
+  const v1 = velocitiesOf(state);
+  const a1 = computeAccelerations(state, options);
+
+  const s2 = advance(state, v1, a1, dt / 2, options);
+  const v2 = velocitiesOf(s2);
+  const a2 = computeAccelerations(s2, options);
+
+  const s3 = advance(state, v2, a2, dt / 2, options);
+  const v3 = velocitiesOf(s3);
+  const a3 = computeAccelerations(s3, options);
+
+  const s4 = advance(state, v3, a3, dt, options);
+  const v4 = velocitiesOf(s4);
+  const a4 = computeAccelerations(s4, options);
+
+  // Weighted average of the four slopes
+  const average = (k1: Vector2[], k2: Vector2[], k3: Vector2[], k4: Vector2[]) =>
+    k1.map((_, index) => ({
+      x: (k1[index].x + 2 * k2[index].x + 2 * k3[index].x + k4[index].x) / 6,
+      y: (k1[index].y + 2 * k2[index].y + 2 * k3[index].y + k4[index].y) / 6
+    }));
+
+  return advance(state, average(v1, v2, v3, v4), average(a1, a2, a3, a4), dt, options);
+};
+
+// All available integrators, keyed by type, with a display label
+export const INTEGRATORS: Record<IntegratorType, { label: string; integrate: Integrator }> = {
+  euler: { label: 'Euler', integrate: euler },
+  verlet: { label: 'Velocity Verlet', integrate: verlet },
+  leapfrog: { label: 'Leapfrog', integrate: leapfrog },
+  rk4: { label: 'RK4', integrate: rk4 }
+};
@@ -0,0 +1,91 @@
+import { Vector2 } from './types';
+
+// Two-body motion in universal variables, valid for elliptic, parabolic and
+// hyperbolic orbits alike. Positions and velocities are relative to the primary.
+
+export interface KeplerState {
+  position: Vector2;
+  velocity: Vector2;
+}
+
+// Newton iterations before giving up on the universal anomaly
+const MAX_ITERATIONS = 50;
+const TOLERANCE = 1e-9;
+
+/**
+ * Stumpff function C(z) = (1 - cos √z) / z, continued to z ≤ 0
+ */
+export const stumpffC = (z: number): number => {
+  if (z > 1e-8) return (1 - Math.cos(Math.sqrt(z))) / z;
+  if (z < -1e-8) return (Math.cosh(Math.sqrt(-z)) - 1) / -z;
+  return 1 / 2 - z / 24;
+};
+
+/**
+ * Stumpff function S(z) = (√z - sin √z) / √z³, continued to z ≤ 0
+ */
+export const stumpffS = (z: number): number => {
+  if (z > 1e-8) {
+    const root = Math.sqrt(z);
+    return (root - Math.sin(root)) / (root * root * root);
+  }
+  if (z < -1e-8) {
+    const root = Math.sqrt(-z);
+    return (Math.sinh(root) - root) / (root * root * root);
+  }
+  return 1 / 6 - z / 120;
+};
+
+/**
+ * Advance a two-body orbit by `dt`
+ * @param state Position and velocity relative to the primary
+ * @param mu G times the primary's mass
+ * @param dt Time to advance; negative values propagate backwards
+ */
+export const propagateKepler = (state: KeplerState, mu: number, dt: number): KeplerState => {
+  const { position, velocity } = state;
+  const r0 = Math.hypot(position.x, position.y);
+  if (r0 === 0 || mu <= 0 || dt === 0) return state;
+
+  const sqrtMu = Math.sqrt(mu);
+  const radialVelocity = (position.x * velocity.x + position.y * velocity.y) / r0;
+  const alpha = 2 / r0 - (velocity.x * velocity.x + velocity.y * velocity.y) / mu; // 1/a
+
+  // Solve the universal Kepler equation for the universal anomaly χ
+  let chi = sqrtMu * Math.abs(alpha) * dt || dt / r0;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const chi2 = chi * chi;
+    const z = alpha * chi2;
+    const C = stumpffC(z);
+    const S = stumpffS(z);
+    const f = r0 * radialVelocity / sqrtMu * chi2 * C + (1 - alpha * r0) * chi2 * chi * S + r0 * chi - sqrtMu * dt;
+    const df = r0 * radialVelocity / sqrtMu * chi * (1 - z * S) + (1 - alpha * r0) * chi2 * C + r0;
+    const correction = f / df;
+    chi -= correction;
+    if (Math.abs(correction) < TOLERANCE) break;
+  }
+
+  // Lagrange coefficients
+  const chi2 = chi * chi;
+  const z = alpha * chi2;
+  const C = stumpffC(z);
+  const S = stumpffS(z);
+  const f = 1 - chi2 / r0 * C;
+  const g = dt - chi2 * chi * S / sqrtMu;
+  const newPosition = {
+    x: f * position.x + g * velocity.x,
+    y: f * position.y + g * velocity.y
+  };
+
+  const r = Math.hypot(newPosition.x, newPosition.y);
+  const fDot = sqrtMu / (r * r0) * (z * chi * S - chi);
+  const gDot = 1 - chi2 / r * C;
+
+  return {
+    position: newPosition,
+    velocity: {
+      x: fDot * position.x + gDot * velocity.x,
+      y: fDot * position.y + gDot * velocity.y
+    }
+  };
+};
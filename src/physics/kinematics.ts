@@ -0,0 +1,117 @@
+import { Body, Vector2 } from './types';
+
+export interface RadialFrame {
+  radial: Vector2; // Unit vector from the body towards its primary
+  tangential: Vector2; // Unit vector perpendicular to the radial one
+  distance: number;
+}
+
+export interface VelocityComponents {
+  radial: Vector2; // Component along the line towards the primary
+  perpendicular: Vector2; // Tangential component
+}
+
+/**
+ * Radial and tangential directions of `body` relative to `primary`, or null
+ * if the two coincide
+ */
+export const radialFrame = (body: Body, primary: Body): RadialFrame | null => {
+  const dx = primary.position.x - body.position.x;
+  const dy = primary.position.y - body.position.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  if (distance === 0) return null;
+
+  const radial = { x: dx / distance, y: dy / distance };
+
+  // Swapping the components and negating one gives the perpendicular vector
+  const tangential = { x: -radial.y, y: radial.x };
+
+  return { radial, tangential, distance };
+};
+
+/**
+ * Split a body's velocity relative to its primary into radial and
+ * perpendicular components
+ */
+export const decomposeVelocity = (body: Body, primary: Body): VelocityComponents => {
+  const frame = radialFrame(body, primary);
+  if (!frame) {
+    return {
+      radial: { x: 0, y: 0 },
+      perpendicular: { x: 0, y: 0 }
+    };
+  }
+
+  // Project the relative velocity onto each direction (dot product)
+  const relativeX = body.velocity.x - primary.velocity.x;
+  const relativeY = body.velocity.y - primary.velocity.y;
+  const radialSpeed = relativeX * frame.radial.x + relativeY * frame.radial.y;
+  const perpSpeed = relativeX * frame.tangential.x + relativeY * frame.tangential.y;
+
+  return {
+    radial: { x: radialSpeed * frame.radial.x, y: radialSpeed * frame.radial.y },
+    perpendicular: { x: perpSpeed * frame.tangential.x, y: perpSpeed * frame.tangential.y }
+  };
+};
+
+/**
+ * Velocity for a circular orbit around `primary`, on top of the primary's own
+ * velocity. With Plummer softening the pull at distance r is weaker than
+ * G*M/r², so v² = G*M*r² / (r² + ε²)^(3/2); tight orbits such as moons would
+ * otherwise start out noticeably eccentric.
+ * @param softening Plummer softening length ε used by the simulation
+ */
+export const circularOrbitVelocity = (body: Body, primary: Body, G: number, softening = 0): Vector2 => {
+  const frame = radialFrame(body, primary);
+  if (!frame) return { ...primary.velocity };
+
+  const r = frame.distance;
+  const speed = Math.sqrt(G * primary.mass * r * r / Math.pow(r * r + softening * softening, 1.5));
+
+  return {
+    x: primary.velocity.x + frame.tangential.x * speed,
+    y: primary.velocity.y + frame.tangential.y * speed
+  };
+};
+
+/**
+ * The body a newly placed body should orbit by default: the most massive one
+ */
+export const findDominantBody = (bodies: Body[]): Body | undefined => {
+  return bodies.reduce<Body | undefined>(
+    (heaviest, body) => (!heaviest || body.mass > heaviest.mass ? body : heaviest),
+    undefined
+  );
+};
+
+/**
+ * The body `body` orbits: its assigned primary while that is still in the
+ * scene, otherwise the most massive other body
+ */
+export const findPrimary = (bodies: Body[], body: Body): Body | undefined => {
+  return bodies.find(candidate => candidate.id === body.primaryId && candidate.id !== body.id)
+    ?? findDominantBody(bodies.filter(candidate => candidate.id !== body.id));
+};
+
+/**
+ * Shift every velocity so the total momentum is zero, which keeps the
+ * barycenter of a free system from drifting away
+ */
+export const removeNetMomentum = (bodies: Body[]): Body[] => {
+  const totalMass = bodies.reduce((sum, body) => sum + body.mass, 0);
+  if (totalMass === 0) return bodies;
+
+  const drift = {
+    x: bodies.reduce((sum, body) => sum + body.velocity.x * body.mass, 0) / totalMass,
+    y: bodies.reduce((sum, body) => sum + body.velocity.y * body.mass, 0) / totalMass
+  };
+
+  return bodies.map(body => ({
+    ...body,
+    velocity: {
+      x: body.velocity.x - drift.x,
+      y: body.velocity.y - drift.y
+    }
+  }));
+};
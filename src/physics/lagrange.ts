@@ -0,0 +1,128 @@
+import { isPinned } from './forces';
+import { Body, StepOptions, Vector2 } from './types';
+
+// Lagrange points of a primary–secondary pair in the circular restricted
+// three-body problem, placed in the frame that rotates with the secondary.
+
+export type LagrangePointName = 'L1' | 'L2' | 'L3' | 'L4' | 'L5';
+
+export interface LagrangePoint {
+  name: LagrangePointName;
+  position: Vector2;
+  velocity: Vector2; // Velocity of a body resting at the point in the rotating frame
+}
+
+export interface LagrangeSystem {
+  primaryId: string;
+  secondaryId: string;
+  points: LagrangePoint[];
+  hillRadius: number; // Radius of the secondary's Hill sphere
+}
+
+const BISECTIONS = 60;
+
+/**
+ * Position along the primary→secondary axis of a collinear point, in units
+ * of their separation with the barycenter at 0, found by bisection between
+ * the singularities at the two bodies
+ * @param massRatio Secondary mass over total mass
+ */
+const collinearPoint = (massRatio: number, low: number, high: number): number => {
+  // Net force in the rotating frame along the axis: centrifugal minus both pulls
+  const force = (x: number) => {
+    const toPrimary = x + massRatio;
+    const toSecondary = x - 1 + massRatio;
+    return x
+      - (1 - massRatio) * toPrimary / Math.abs(toPrimary * toPrimary * toPrimary)
+      - massRatio * toSecondary / Math.abs(toSecondary * toSecondary * toSecondary);
+  };
+
+  for (let i = 0; i < BISECTIONS; i++) {
+    const middle = (low + high) / 2;
+    if (force(middle) < 0) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Lagrange points L1–L5 and the Hill sphere of `secondary` orbiting
+ * `primary`. The frame rotates at the secondary's current angular velocity
+ * about the barycenter, so the points follow the bodies as they move.
+ * @param options Whether the scene is barycentric, which decides if a fixed primary is pinned
+ * @returns Null if the bodies coincide or the secondary has no mass
+ */
+export const lagrangePoints = (
+  primary: Body,
+  secondary: Body,
+  options: Pick<StepOptions, 'barycentric'>
+): LagrangeSystem | null => {
+  const dx = secondary.position.x - primary.position.x;
+  const dy = secondary.position.y - primary.position.y;
+  const separation = Math.hypot(dx, dy);
+  if (separation === 0 || secondary.mass <= 0 || primary.mass <= 0) return null;
+
+  const massRatio = secondary.mass / (primary.mass + secondary.mass);
+  // A pinned primary stays put, so the frame turns about it instead of the barycenter
+  const barycenterWeight = isPinned(primary, options) ? 0 : massRatio;
+  const barycenter = {
+    x: primary.position.x + dx * barycenterWeight,
+    y: primary.position.y + dy * barycenterWeight
+  };
+  const barycenterVelocity = {
+    x: primary.velocity.x + (secondary.velocity.x - primary.velocity.x) * barycenterWeight,
+    y: primary.velocity.y + (secondary.velocity.y - primary.velocity.y) * barycenterWeight
+  };
+
+  // Angular velocity of the secondary around the primary; positive turns +x towards +y
+  const relativeVx = secondary.velocity.x - primary.velocity.x;
+  const relativeVy = secondary.velocity.y - primary.velocity.y;
+  const angularVelocity = (dx * relativeVy - dy * relativeVx) / (separation * separation);
+  const sense = angularVelocity < 0 ? -1 : 1;
+
+  const axis = { x: dx / separation, y: dy / separation };
+  const origin = { x: primary.position.x - barycenter.x, y: primary.position.y - barycenter.y };
+
+  // Rigid rotation of the frame about the barycenter
+  const point = (name: LagrangePointName, offset: Vector2): LagrangePoint => {
+    const position = { x: barycenter.x + offset.x, y: barycenter.y + offset.y };
+    return {
+      name,
+      position,
+      velocity: {
+        x: barycenterVelocity.x - angularVelocity * offset.y,
+        y: barycenterVelocity.y + angularVelocity * offset.x
+      }
+    };
+  };
+  // Collinear positions are measured from the barycenter, which is not the
+  // frame's center when the primary is pinned
+  const onAxis = (name: LagrangePointName, x: number) => {
+    const fromCenter = (x + massRatio - barycenterWeight) * separation;
+    return point(name, { x: axis.x * fromCenter, y: axis.y * fromCenter });
+  };
+
+  // L4 leads the secondary by 60° in its direction of travel, L5 trails it
+  const triangular = (name: LagrangePointName, angle: number) => {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return point(name, {
+      x: origin.x + (axis.x * cos - axis.y * sin) * separation,
+      y: origin.y + (axis.x * sin + axis.y * cos) * separation
+    });
+  };
+
+  const secondaryX = 1 - massRatio;
+  return {
+    primaryId: primary.id,
+    secondaryId: secondary.id,
+    points: [
+      onAxis('L1', collinearPoint(massRatio, -massRatio + 1e-9, secondaryX - 1e-9)),
+      onAxis('L2', collinearPoint(massRatio, secondaryX + 1e-9, 2)),
+      onAxis('L3', collinearPoint(massRatio, -2, -massRatio - 1e-9)),
+      triangular('L4', sense * Math.PI / 3),
+      triangular('L5', -sense * Math.PI / 3)
+    ],
+    hillRadius: separation * Math.cbrt(secondary.mass / (3 * primary.mass))
+  };
+};
@@ -0,0 +1,240 @@
+import { KeplerState, propagateKepler, stumpffC, stumpffS } from './kepler';
+import { burnFrame } from './maneuvers';
+import { Body, Vector2 } from './types';
+
+// Lambert's problem: the orbit around a primary that joins two positions in
+// a given time. Used to target intercepts with a body further along its orbit.
+
+export interface LambertSolution {
+  departureVelocity: Vector2; // Relative to the primary
+  arrivalVelocity: Vector2;
+}
+
+export interface InterceptPlan {
+  departureTime: number; // Absolute simulated time of departure
+  timeOfFlight: number;
+  departurePosition: Vector2; // Where the departure body will be at departure
+  arrivalPosition: Vector2; // Where the arrival body will be on arrival
+  departureVelocity: Vector2; // Velocity needed at departure
+  deltaV: number; // Change from the departure body's own velocity
+  prograde: number; // The same change in the departure body's burn frame
+  radial: number;
+  path: Vector2[]; // Sampled transfer arc
+}
+
+export interface PorkchopPlot {
+  departureTimes: number[]; // Absolute simulated times
+  flightTimes: number[];
+  deltaV: (number | null)[][]; // Indexed [departure][flight time], null where unsolvable
+}
+
+interface InterceptSearchRange {
+  maxDelay: number; // Latest departure considered, relative to now
+  minTimeOfFlight: number;
+  maxTimeOfFlight: number;
+}
+
+const MAX_BISECTIONS = 100;
+const PATH_POINTS = 100;
+
+/**
+ * Solve Lambert's problem with universal variables, taking the short way
+ * round in the given sense of rotation
+ * @param r1 Departure position relative to the primary
+ * @param r2 Arrival position relative to the primary
+ * @param timeOfFlight Time between the two positions
+ * @param mu G times the primary's mass
+ * @param direction Sense of rotation in canvas coordinates (1 or -1)
+ * @returns Null if the positions are collinear with the primary, where the plane is undefined
+ */
+export const solveLambert = (
+  r1: Vector2,
+  r2: Vector2,
+  timeOfFlight: number,
+  mu: number,
+  direction: 1 | -1
+): LambertSolution | null => {
+  const distance1 = Math.hypot(r1.x, r1.y);
+  const distance2 = Math.hypot(r2.x, r2.y);
+  if (distance1 === 0 || distance2 === 0 || timeOfFlight <= 0 || mu <= 0) return null;
+
+  // Transfer angle, measured in the direction of travel
+  const cosAngle = Math.max(-1, Math.min(1, (r1.x * r2.x + r1.y * r2.y) / (distance1 * distance2)));
+  const cross = r1.x * r2.y - r1.y * r2.x;
+  const angle = direction * cross >= 0 ? Math.acos(cosAngle) : 2 * Math.PI - Math.acos(cosAngle);
+  if (Math.abs(1 - Math.cos(angle)) < 1e-9 || Math.abs(Math.sin(angle)) < 1e-9) return null;
+
+  const A = Math.sin(angle) * Math.sqrt(distance1 * distance2 / (1 - Math.cos(angle)));
+  const sqrtMu = Math.sqrt(mu);
+
+  const y = (z: number) => distance1 + distance2 + A * (z * stumpffS(z) - 1) / Math.sqrt(stumpffC(z));
+  const flightTime = (z: number) => {
+    const yz = y(z);
+    const C = stumpffC(z);
+    return (Math.pow(yz / C, 1.5) * stumpffS(z) + A * Math.sqrt(yz)) / sqrtMu;
+  };
+
+  // Time of flight grows with z, so bracket the root and bisect. Below the
+  // bracket y turns negative, which counts as "too short".
+  let low = -4 * Math.PI * Math.PI;
+  let high = 4 * Math.PI * Math.PI - 1e-6;
+  for (let i = 0; i < 50 && y(low) > 0 && flightTime(low) > timeOfFlight; i++) low *= 2;
+
+  let z = 0;
+  for (let i = 0; i < MAX_BISECTIONS; i++) {
+    z = (low + high) / 2;
+    if (y(z) < 0 || flightTime(z) < timeOfFlight) low = z;
+    else high = z;
+  }
+
+  const yz = y(z);
+  if (!(yz > 0)) return null;
+
+  // Lagrange coefficients give both velocities from the two positions
+  const f = 1 - yz / distance1;
+  const g = A * Math.sqrt(yz / mu);
+  const gDot = 1 - yz / distance2;
+
+  return {
+    departureVelocity: { x: (r2.x - f * r1.x) / g, y: (r2.y - f * r1.y) / g },
+    arrivalVelocity: { x: (gDot * r2.x - r1.x) / g, y: (gDot * r2.y - r1.y) / g }
+  };
+};
+
+// State of a body relative to the primary
+const relativeState = (body: Body, primary: Body): KeplerState => ({
+  position: { x: body.position.x - primary.position.x, y: body.position.y - primary.position.y },
+  velocity: { x: body.velocity.x - primary.velocity.x, y: body.velocity.y - primary.velocity.y }
+});
+
+// Sense of rotation of a body around the primary, counter-clockwise on screen if unknown
+const rotationDirection = (state: KeplerState): 1 | -1 => {
+  const angularMomentum = state.position.x * state.velocity.y - state.position.y * state.velocity.x;
+  return angularMomentum < 0 ? -1 : 1;
+};
+
+/**
+ * Plan a trajectory from `departure` to wherever `arrival` will be after the
+ * flight. Both bodies are assumed to follow two-body orbits around `primary`,
+ * which itself keeps moving at its current velocity.
+ * @param time Current simulated time
+ * @param delay Time from now until departure
+ * @param timeOfFlight Time from departure to arrival
+ */
+export const planIntercept = (
+  departure: Body,
+  arrival: Body,
+  primary: Body,
+  G: number,
+  time: number,
+  delay: number,
+  timeOfFlight: number
+): InterceptPlan | null => {
+  const mu = G * primary.mass;
+  const start = propagateKepler(relativeState(departure, primary), mu, delay);
+  const end = propagateKepler(relativeState(arrival, primary), mu, delay + timeOfFlight);
+
+  const solution = solveLambert(start.position, end.position, timeOfFlight, mu, rotationDirection(start));
+  if (!solution) return null;
+
+  // Back to canvas coordinates, with the primary moved along
+  const primaryAt = (dt: number): Vector2 => ({
+    x: primary.position.x + primary.velocity.x * dt,
+    y: primary.position.y + primary.velocity.y * dt
+  });
+  const toCanvas = (relative: Vector2, dt: number): Vector2 => {
+    const origin = primaryAt(dt);
+    return { x: origin.x + relative.x, y: origin.y + relative.y };
+  };
+
+  const deltaV = {
+    x: solution.departureVelocity.x - start.velocity.x,
+    y: solution.departureVelocity.y - start.velocity.y
+  };
+  // Frame of the departure body at departure, for scheduling the burn as a maneuver node
+  const frame = burnFrame(
+    { ...departure, position: start.position, velocity: start.velocity },
+    { ...primary, position: { x: 0, y: 0 }, velocity: { x: 0, y: 0 } }
+  );
+
+  const transfer: KeplerState = { position: start.position, velocity: solution.departureVelocity };
+  const path = Array.from({ length: PATH_POINTS + 1 }, (_, index) => {
+    const dt = timeOfFlight * index / PATH_POINTS;
+    return toCanvas(propagateKepler(transfer, mu, dt).position, delay + dt);
+  });
+
+  return {
+    departureTime: time + delay,
+    timeOfFlight,
+    departurePosition: toCanvas(start.position, delay),
+    arrivalPosition: toCanvas(end.position, delay + timeOfFlight),
+    departureVelocity: {
+      x: solution.departureVelocity.x + primary.velocity.x,
+      y: solution.departureVelocity.y + primary.velocity.y
+    },
+    deltaV: Math.hypot(deltaV.x, deltaV.y),
+    prograde: deltaV.x * frame.prograde.x + deltaV.y * frame.prograde.y,
+    radial: deltaV.x * frame.radial.x + deltaV.y * frame.radial.y,
+    path
+  };
+};
+
+// Sensible axes for a porkchop plot: departures over one period of the
+// slower orbit, flight times around the Hohmann transfer time
+const interceptSearchRange = (departure: Body, arrival: Body, primary: Body, G: number): InterceptSearchRange => {
+  const mu = G * primary.mass;
+  const r1 = Math.hypot(departure.position.x - primary.position.x, departure.position.y - primary.position.y);
+  const r2 = Math.hypot(arrival.position.x - primary.position.x, arrival.position.y - primary.position.y);
+  const period = (r: number) => 2 * Math.PI * Math.sqrt(r * r * r / mu);
+  const a = (r1 + r2) / 2;
+  const hohmannTime = Math.PI * Math.sqrt(a * a * a / mu);
+
+  return {
+    maxDelay: Math.max(period(r1), period(r2)),
+    minTimeOfFlight: hohmannTime * 0.2,
+    maxTimeOfFlight: hohmannTime * 2
+  };
+};
+
+/**
+ * Departure delta-v over a grid of departure times and flight times, the
+ * classic "porkchop" plot for picking a launch window
+ * @param time Current simulated time, the earliest departure
+ * @param resolution Number of samples along each axis
+ */
+export const porkchopPlot = (
+  departure: Body,
+  arrival: Body,
+  primary: Body,
+  G: number,
+  time: number,
+  resolution: number
+): PorkchopPlot => {
+  const mu = G * primary.mass;
+  const range = interceptSearchRange(departure, arrival, primary, G);
+  const samples = (from: number, to: number) =>
+    Array.from({ length: resolution }, (_, index) => from + (to - from) * index / (resolution - 1));
+
+  const departureTimes = samples(time, time + range.maxDelay);
+  const flightTimes = samples(range.minTimeOfFlight, range.maxTimeOfFlight);
+  const departureState = relativeState(departure, primary);
+  const arrivalState = relativeState(arrival, primary);
+
+  const deltaV = departureTimes.map(departureTime => {
+    const delay = departureTime - time;
+    const start = propagateKepler(departureState, mu, delay);
+    const direction = rotationDirection(start);
+
+    return flightTimes.map(timeOfFlight => {
+      const end = propagateKepler(arrivalState, mu, delay + timeOfFlight);
+      const solution = solveLambert(start.position, end.position, timeOfFlight, mu, direction);
+      if (!solution) return null;
+      return Math.hypot(
+        solution.departureVelocity.x - start.velocity.x,
+        solution.departureVelocity.y - start.velocity.y
+      );
+    });
+  });
+
+  return { departureTimes, flightTimes, deltaV };
+};
@@ -0,0 +1,103 @@
+import { ManeuverEvent } from './events';
+import { Body, SimulationState, Vector2 } from './types';
+
+// Scheduled impulsive burns. A maneuver node gives a delta-v in the orbital
+// frame of the body's primary: prograde along the velocity relative to the
+// primary, radial perpendicular to it, pointing away from the primary.
+
+export interface ManeuverNode {
+  id: string;
+  time: number; // Simulated time of the burn
+  prograde: number; // Delta-v along the direction of travel (negative = retrograde)
+  radial: number; // Delta-v away from the primary (negative = radial in)
+}
+
+export interface BurnFrame {
+  prograde: Vector2; // Unit vector along the velocity relative to the primary
+  radial: Vector2; // Unit vector perpendicular to it, away from the primary
+}
+
+/**
+ * Prograde and radial-out directions of `body` relative to `primary`. Without
+ * a primary, or when the body is at rest relative to it, the frame falls
+ * back to the body's own velocity and then to the x axis.
+ */
+export const burnFrame = (body: Body, primary?: Body): BurnFrame => {
+  const relativeVelocity = {
+    x: body.velocity.x - (primary?.velocity.x ?? 0),
+    y: body.velocity.y - (primary?.velocity.y ?? 0)
+  };
+  const speed = Math.hypot(relativeVelocity.x, relativeVelocity.y);
+  const prograde = speed > 0
+    ? { x: relativeVelocity.x / speed, y: relativeVelocity.y / speed }
+    : { x: 1, y: 0 };
+
+  // Of the two perpendiculars, radial-out is the one facing away from the primary
+  let radial = { x: -prograde.y, y: prograde.x };
+  if (primary) {
+    const outwardX = body.position.x - primary.position.x;
+    const outwardY = body.position.y - primary.position.y;
+    if (radial.x * outwardX + radial.y * outwardY < 0) {
+      radial = { x: -radial.x, y: -radial.y };
+    }
+  }
+
+  return { prograde, radial };
+};
+
+/**
+ * Delta-v vector of a node in the given frame
+ */
+export const burnDeltaV = (node: ManeuverNode, frame: BurnFrame): Vector2 => ({
+  x: frame.prograde.x * node.prograde + frame.radial.x * node.radial,
+  y: frame.prograde.y * node.prograde + frame.radial.y * node.radial
+});
+
+/**
+ * Execute every maneuver node that falls due by `state.time`, i.e. whose time
+ * lies in (`since`, `state.time`]. Nodes already past at `since`, such as
+ * ones added with a time that has gone by, are executed right away and
+ * reported as overdue. Executed nodes are removed from their body.
+ * @param state State right after a step
+ * @param since Simulated time before the step
+ * @returns The updated state and one event per executed burn
+ */
+export const applyManeuvers = (
+  state: SimulationState,
+  since: number
+): { state: SimulationState; events: ManeuverEvent[] } => {
+  const events: ManeuverEvent[] = [];
+  const bodiesById = new Map(state.bodies.map(body => [body.id, body]));
+
+  const bodies = state.bodies.map(body => {
+    if (!body.maneuvers?.some(node => node.time <= state.time)) return body;
+
+    const primary = body.primaryId ? bodiesById.get(body.primaryId) : undefined;
+    let velocity = body.velocity;
+
+    // Burns are applied in time order, each in the frame left by the previous one
+    const due = body.maneuvers.filter(node => node.time <= state.time).sort((a, b) => a.time - b.time);
+    due.forEach(node => {
+      const deltaV = burnDeltaV(node, burnFrame({ ...body, velocity }, primary));
+      velocity = { x: velocity.x + deltaV.x, y: velocity.y + deltaV.y };
+      events.push({
+        type: 'maneuver',
+        time: state.time,
+        bodyIds: [body.id],
+        position: body.position,
+        nodeId: node.id,
+        scheduledTime: node.time,
+        overdue: node.time <= since,
+        deltaV
+      });
+    });
+
+    return {
+      ...body,
+      velocity,
+      maneuvers: body.maneuvers.filter(node => node.time > state.time)
+    };
+  });
+
+  return { state: { ...state, bodies }, events };
+};
@@ -0,0 +1,141 @@
+import { Body, Vector2 } from './types';
+
+// Keplerian elements of a body's osculating orbit around its primary: the
+// two-body orbit it would follow if every other force vanished right now.
+
+export interface OrbitalElements {
+  semiMajorAxis: number; // Negative for escape orbits, infinite for parabolic ones
+  eccentricity: number;
+  argumentOfPeriapsis: number; // Direction of periapsis, radians counter-clockwise on screen from +x
+  period: number | null; // Null unless bound
+  periapsis: number; // Closest distance to the primary
+  apoapsis: number | null; // Furthest distance, null unless bound
+  specificEnergy: number; // Orbital energy per unit mass
+  bound: boolean;
+}
+
+// Elements that place a body on its orbit, as entered by hand
+export interface OrbitPlacement {
+  semiMajorAxis: number; // Size of the orbit; for e > 1 the magnitude of the (negative) axis
+  eccentricity: number; // Anything but exactly 1
+  argumentOfPeriapsis: number; // Radians counter-clockwise on screen from +x
+  trueAnomaly: number; // Angle from periapsis to the body, radians in the direction of travel
+  direction: 1 | -1; // 1 = prograde (counter-clockwise on screen), -1 = retrograde
+}
+
+export interface Apsides {
+  periapsis: Vector2; // Canvas position of the closest point
+  apoapsis: Vector2 | null; // Canvas position of the furthest point, null unless bound
+}
+
+// Below this eccentricity the orbit counts as circular and periapsis has no direction
+const CIRCULAR_ECCENTRICITY = 1e-6;
+
+// Eccentricity vector, pointing from the primary towards periapsis
+const eccentricityVector = (r: Vector2, v: Vector2, mu: number): Vector2 => {
+  const distance = Math.hypot(r.x, r.y);
+  const speedSquared = v.x * v.x + v.y * v.y;
+  const radialSpeed = r.x * v.x + r.y * v.y;
+  return {
+    x: ((speedSquared - mu / distance) * r.x - radialSpeed * v.x) / mu,
+    y: ((speedSquared - mu / distance) * r.y - radialSpeed * v.y) / mu
+  };
+};
+
+/**
+ * Orbital elements of `body` relative to `primary`, or null if the two
+ * coincide or the primary has no mass
+ * @param G Gravitational constant
+ */
+export const orbitalElements = (body: Body, primary: Body, G: number): OrbitalElements | null => {
+  const mu = G * primary.mass;
+  const r = { x: body.position.x - primary.position.x, y: body.position.y - primary.position.y };
+  const v = { x: body.velocity.x - primary.velocity.x, y: body.velocity.y - primary.velocity.y };
+  const distance = Math.hypot(r.x, r.y);
+  if (distance === 0 || mu <= 0) return null;
+
+  const specificEnergy = (v.x * v.x + v.y * v.y) / 2 - mu / distance;
+  const angularMomentum = r.x * v.y - r.y * v.x;
+  const e = eccentricityVector(r, v, mu);
+  const eccentricity = Math.hypot(e.x, e.y);
+  const bound = specificEnergy < 0;
+
+  const semiMajorAxis = specificEnergy === 0 ? Infinity : -mu / (2 * specificEnergy);
+  const semiLatusRectum = angularMomentum * angularMomentum / mu;
+
+  return {
+    semiMajorAxis,
+    eccentricity,
+    // Canvas y points down, so flip it for a conventional counter-clockwise angle
+    argumentOfPeriapsis: eccentricity < CIRCULAR_ECCENTRICITY ? 0 : Math.atan2(-e.y, e.x),
+    period: bound ? 2 * Math.PI * Math.sqrt(semiMajorAxis * semiMajorAxis * semiMajorAxis / mu) : null,
+    periapsis: semiLatusRectum / (1 + eccentricity),
+    apoapsis: bound ? semiLatusRectum / (1 - eccentricity) : null,
+    specificEnergy,
+    bound
+  };
+};
+
+/**
+ * Canvas positions of periapsis and apoapsis for the given elements, or null
+ * for circular orbits where neither point is defined
+ */
+export const apsides = (elements: OrbitalElements, primary: Body): Apsides | null => {
+  if (elements.eccentricity < CIRCULAR_ECCENTRICITY) return null;
+
+  const direction = {
+    x: Math.cos(elements.argumentOfPeriapsis),
+    y: -Math.sin(elements.argumentOfPeriapsis)
+  };
+
+  return {
+    periapsis: {
+      x: primary.position.x + direction.x * elements.periapsis,
+      y: primary.position.y + direction.y * elements.periapsis
+    },
+    apoapsis: elements.apoapsis === null ? null : {
+      x: primary.position.x - direction.x * elements.apoapsis,
+      y: primary.position.y - direction.y * elements.apoapsis
+    }
+  };
+};
+
+/**
+ * Position and velocity of a body on the orbit described by `placement`
+ * around `primary`. The inverse of `orbitalElements`.
+ * @returns Null if the elements don't describe a reachable point: a
+ *   non-positive axis, a parabola, or a true anomaly beyond a hyperbola's asymptotes
+ */
+export const stateFromElements = (
+  placement: OrbitPlacement,
+  primary: Body,
+  G: number
+): { position: Vector2; velocity: Vector2 } | null => {
+  const { semiMajorAxis, eccentricity, argumentOfPeriapsis, trueAnomaly, direction } = placement;
+  const mu = G * primary.mass;
+  if (semiMajorAxis <= 0 || eccentricity < 0 || eccentricity === 1 || mu <= 0) return null;
+
+  const semiLatusRectum = semiMajorAxis * Math.abs(1 - eccentricity * eccentricity);
+  const denominator = 1 + eccentricity * Math.cos(trueAnomaly);
+  if (denominator <= 0) return null;
+  const distance = semiLatusRectum / denominator;
+  const speedScale = Math.sqrt(mu / semiLatusRectum);
+
+  // Perifocal frame: P towards periapsis, Q a quarter turn ahead in the direction of travel
+  const P = { x: Math.cos(argumentOfPeriapsis), y: Math.sin(argumentOfPeriapsis) };
+  const Q = { x: -direction * P.y, y: direction * P.x };
+  const cos = Math.cos(trueAnomaly);
+  const sin = Math.sin(trueAnomaly);
+
+  // Computed with y up, then flipped into canvas coordinates
+  return {
+    position: {
+      x: primary.position.x + distance * (cos * P.x + sin * Q.x),
+      y: primary.position.y - distance * (cos * P.y + sin * Q.y)
+    },
+    velocity: {
+      x: primary.velocity.x + speedScale * (-sin * P.x + (eccentricity + cos) * Q.x),
+      y: primary.velocity.y - speedScale * (-sin * P.y + (eccentricity + cos) * Q.y)
+    }
+  };
+};
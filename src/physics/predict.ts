@@ -0,0 +1,160 @@
+import { isPinned } from './forces';
+import { applyManeuvers, BurnFrame, burnFrame } from './maneuvers';
+import { step } from './step';
+import { SimulationState, StepOptions, Vector2 } from './types';
+
+// Prediction settings
+const PREDICTION_TIME_STEP = 0.05;
+const MAX_PREDICTION_POINTS = 2000;
+
+// Where a scheduled burn happens along a predicted path
+export interface PredictedBurn {
+  nodeId: string;
+  position: Vector2;
+  frame: BurnFrame; // Prograde and radial directions just before the burn
+}
+
+export interface OrbitPrediction {
+  points: Vector2[]; // Body centers along the path
+  burns: PredictedBurn[]; // Burns of the traced body that fall within the path
+}
+
+/**
+ * Calculate the predicted orbit path for one body by running the regular
+ * physics step on a copy of the scene. Scheduled maneuvers are executed along
+ * the way, so the path shows the post-burn trajectory.
+ * @param initialState The scene to predict from
+ * @param bodyId The body to trace
+ * @param options The same physics options the live simulation uses
+ * @returns The path and the burns along it
+ */
+export const predictOrbit = (
+  initialState: SimulationState,
+  bodyId: string,
+  options: StepOptions
+): OrbitPrediction => {
+  let state = initialState;
+
+  // Nothing to predict for pinned bodies or when there is nothing to orbit
+  const bodyIndex = state.bodies.findIndex(body => body.id === bodyId);
+  if (bodyIndex === -1 || state.bodies.length <= 1 || isPinned(state.bodies[bodyIndex], options)) {
+    return { points: [], burns: [] };
+  }
+
+  // Distances are measured from the body's primary, if it has one
+  const primaryId = state.bodies[bodyIndex].primaryId;
+  const primaryIndex = state.bodies.findIndex(body => body.id === primaryId);
+  const distanceToPrimary = (current: SimulationState, point: Vector2) => {
+    if (primaryIndex === -1) return 0;
+    const primary = current.bodies[primaryIndex].position;
+    return Math.sqrt(Math.pow(point.x - primary.x, 2) + Math.pow(point.y - primary.y, 2));
+  };
+
+  const orbitPoints: Vector2[] = [];
+  const burns: PredictedBurn[] = [];
+
+  // Add the current position as the first point
+  const initialBody = state.bodies[bodyIndex];
+  let initialPoint = { ...initialBody.position };
+  orbitPoints.push(initialPoint);
+  
+  // Store initial velocity direction for orbit completion detection
+  let initialVelocity = { ...initialBody.velocity };
+  let initialVelocityMagnitude = Math.sqrt(
+    initialVelocity.x * initialVelocity.x + 
+    initialVelocity.y * initialVelocity.y
+  );
+
+  let initialDistanceToPrimary = distanceToPrimary(state, initialPoint);
+  
+  // Track orbit completion metrics
+  let directionChanges = 0;
+  let lastSignX = Math.sign(initialVelocity.x);
+  let lastSignY = Math.sign(initialVelocity.y);
+  let pointsSinceBurn = 0;
+  
+  // Simulate future positions
+  for (let i = 0; i < MAX_PREDICTION_POINTS; i++) {
+    const since = state.time;
+    const beforeBurn = step(state, PREDICTION_TIME_STEP, options);
+    const result = applyManeuvers(beforeBurn, since);
+    state = result.state;
+    const simulatedBody = state.bodies[bodyIndex];
+    pointsSinceBurn++;
+
+    // A burn of the traced body starts a new orbit to detect completion of
+    const ownBurns = result.events.filter(event => event.bodyIds[0] === bodyId);
+    if (ownBurns.length > 0) {
+      const burningBody = beforeBurn.bodies[bodyIndex];
+      const primary = primaryIndex === -1 ? undefined : beforeBurn.bodies[primaryIndex];
+      ownBurns.forEach(event => burns.push({
+        nodeId: event.nodeId,
+        position: { ...burningBody.position },
+        frame: burnFrame(burningBody, primary)
+      }));
+
+      initialPoint = { ...simulatedBody.position };
+      initialVelocity = { ...simulatedBody.velocity };
+      initialVelocityMagnitude = Math.hypot(initialVelocity.x, initialVelocity.y);
+      initialDistanceToPrimary = distanceToPrimary(state, initialPoint);
+      directionChanges = 0;
+      lastSignX = Math.sign(initialVelocity.x);
+      lastSignY = Math.sign(initialVelocity.y);
+      pointsSinceBurn = 0;
+    }
+    
+    // Add new point to the orbit path
+    const newPoint = { ...simulatedBody.position };
+    orbitPoints.push(newPoint);
+    
+    // Check for direction changes (to detect orbit completion)
+    const currentSignX = Math.sign(simulatedBody.velocity.x);
+    const currentSignY = Math.sign(simulatedBody.velocity.y);
+    
+    if (currentSignX !== lastSignX || currentSignY !== lastSignY) {
+      directionChanges++;
+      lastSignX = currentSignX;
+      lastSignY = currentSignY;
+    }
+    
+    // Keep going while the traced body still has burns ahead
+    if (simulatedBody.maneuvers?.length) continue;
+
+    // Detect if we've completed an orbit
+    if (pointsSinceBurn > 50) { // Only check after we've generated enough points
+      // Calculate distance from the starting point
+      const distanceFromStart = Math.sqrt(
+        Math.pow(newPoint.x - initialPoint.x, 2) + 
+        Math.pow(newPoint.y - initialPoint.y, 2)
+      );
+      
+      // Calculate current velocity
+      const currentVelocity = simulatedBody.velocity;
+      const currentVelocityMagnitude = Math.sqrt(
+        currentVelocity.x * currentVelocity.x + 
+        currentVelocity.y * currentVelocity.y
+      );
+      
+      // Dot product to check angle between initial and current velocity vectors
+      const dotProduct = 
+        (initialVelocity.x * currentVelocity.x + initialVelocity.y * currentVelocity.y) / 
+        (initialVelocityMagnitude * currentVelocityMagnitude);
+      
+      // Check if we're close to the starting point AND moving in approximately the same direction
+      // and have gone through at least 4 direction changes (crossing x and y axes twice)
+      if (distanceFromStart < initialBody.radius * 4 && dotProduct > 0.9 && directionChanges >= 4) {
+        // We've completed an orbit
+        break;
+      }
+      
+      // If we've gone too far from the starting position, this might not be a stable orbit
+      // Let's cap the maximum distance to avoid strange paths
+      // If the planet is moving away significantly, stop prediction
+      if (primaryIndex !== -1 && distanceToPrimary(state, newPoint) > initialDistanceToPrimary * 3) {
+        break;
+      }
+    }
+  }
+  
+  return { points: orbitPoints, burns };
+};
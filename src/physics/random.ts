@@ -0,0 +1,22 @@
+// Seeded pseudo-random number generator (mulberry32). Used instead of
+// Math.random() wherever randomness affects the simulation, so a scene can be
+// replayed exactly from its seed.
+
+export type RandomGenerator = () => number;
+
+export const DEFAULT_SEED = 42;
+
+/**
+ * Create a generator returning numbers in [0, 1) for the given seed
+ */
+export const createRandom = (seed: number): RandomGenerator => {
+  let value = seed >>> 0;
+
+  return () => {
+    value = (value + 0x6D2B79F5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
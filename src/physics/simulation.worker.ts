@@ -0,0 +1,276 @@
+import { adaptiveSubsteps } from './adaptive';
+import { collectQuadtreeCells, buildQuadtree } from './barnesHut';
+import { advanceClock } from './clock';
+import { resolveCollisions } from './collisions';
+import { ConservationTotals, conservationDrift, DiagnosticsSample, measureConservation } from './diagnostics';
+import { measureDivergence } from './divergence';
+import { createEventDetector, detectEvents } from './eventDetector';
+import { SimulationEvent } from './events';
+import { applyManeuvers } from './maneuvers';
+import { computeEnvironmentalForces, computeForceContributions } from './forces';
+import { predictOrbit } from './predict';
+import { step } from './step';
+import { SimulationState, StepOptions } from './types';
+import { packKinematics, PredictionsMessage, WorkerRequest, WorkerResponse, WorkerSettings } from './workerProtocol';
+
+// Runs the physics loop off the UI thread. The worker owns the authoritative
+// simulation state; the UI sends scene edits and settings and renders the
+// snapshots it gets back.
+
+const TICK_INTERVAL_MS = 1000 / 60;
+const PREDICTION_INTERVAL_MS = 250;
+// Snapshots between conservation measurements while the diagnostics panel is
+// collapsed; often enough for its drift warning, and the pair sum is O(n²)
+const DIAGNOSTICS_SAMPLE_INTERVAL = 30;
+// Wall-clock time each tick may spend tracing orbits. Every body is traced
+// through a full copy of the scene, so a round over all bodies is spread
+// over as many ticks as it needs; at least one body is traced per tick.
+const PREDICTION_BUDGET_MS = 4;
+
+let state: SimulationState = { bodies: [], time: 0 };
+let fork: SimulationState | null = null; // What-if copy, advanced with the same steps
+let pendingForkEvents: SimulationEvent[] = [];
+let version = 0;
+let settings: WorkerSettings | null = null;
+let running = false;
+
+let accumulator = 0;
+let lastTick = performance.now();
+let lastPrediction = -Infinity;
+// Prediction round in progress: the scene it traces, bodies still to trace
+// and the paths so far
+let prediction: {
+  version: number;
+  state: SimulationState;
+  queue: string[];
+  paths: PredictionsMessage['paths'];
+} | null = null;
+let pendingEvents: SimulationEvent[] = [];
+let detector = createEventDetector();
+let substeps = 1;
+
+// Conservation totals that drift is measured against. Re-taken whenever the
+// scene, the force rules or a collision legitimately change the totals.
+let baseline: ConservationTotals | null = null;
+let epoch = 0;
+let snapshotsSinceDiagnostics = 0;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const stepOptions = (): StepOptions | null => settings?.options ?? null;
+
+// Whether switching between two sets of options changes what is conserved
+const changesConservation = (previous: StepOptions | undefined, next: StepOptions): boolean => {
+  return !previous ||
+    previous.G !== next.G ||
+    previous.softening !== next.softening ||
+    previous.planetaryForces !== next.planetaryForces ||
+    previous.forceLaws.join() !== next.forceLaws.join() ||
+    JSON.stringify(previous.forceLawParameters) !== JSON.stringify(next.forceLawParameters) ||
+    JSON.stringify(previous.environment) !== JSON.stringify(next.environment) ||
+    previous.barycentric !== next.barycentric;
+};
+
+const resetBaseline = () => {
+  baseline = null;
+  epoch++;
+};
+
+const postSnapshot = () => {
+  const options = stepOptions();
+  if (!settings || !options) return;
+
+  const kinematics = packKinematics(state.bodies);
+  const forkKinematics = fork ? packKinematics(fork.bodies) : null;
+
+  // A new baseline is always measured right away
+  const measure = settings.collectDiagnostics || !baseline ||
+    ++snapshotsSinceDiagnostics >= DIAGNOSTICS_SAMPLE_INTERVAL;
+  let diagnostics: DiagnosticsSample | undefined;
+  if (measure) {
+    const totals = measureConservation(state, options);
+    if (!baseline) baseline = totals;
+    diagnostics = { time: state.time, epoch, totals, drift: conservationDrift(totals, baseline) };
+    snapshotsSinceDiagnostics = 0;
+  }
+
+  // Force lines are drawn for every pair, even when planet-planet forces are disabled
+  const forces = settings.collectForces ? computeForceContributions(state, options) : undefined;
+  const lineForces = settings.collectForces
+    ? (options.planetaryForces ? forces : computeForceContributions(state, { ...options, planetaryForces: true }))
+    : undefined;
+
+  post({
+    type: 'snapshot',
+    version,
+    time: state.time,
+    ids: state.bodies.map(body => body.id),
+    kinematics,
+    events: pendingEvents,
+    forces,
+    lineForces,
+    environmentForces: settings.collectForces ? computeEnvironmentalForces(state, options) : undefined,
+    quadtree: settings.collectQuadtree ? collectQuadtreeCells(buildQuadtree(state.bodies)) : undefined,
+    diagnostics,
+    substeps,
+    fork: fork && forkKinematics ? {
+      ids: fork.bodies.map(body => body.id),
+      kinematics: forkKinematics,
+      events: pendingForkEvents,
+      divergence: measureDivergence(state.bodies, fork.bodies)
+    } : undefined
+  }, forkKinematics ? [kinematics.buffer, forkKinematics.buffer] : [kinematics.buffer]);
+  pendingEvents = [];
+  pendingForkEvents = [];
+};
+
+// Start tracing every body from the current state
+const startPredictions = () => {
+  prediction = settings?.predictOrbits
+    ? { version, state, queue: state.bodies.map(body => body.id), paths: [] }
+    : null;
+  lastPrediction = performance.now();
+};
+
+// Trace bodies of the current round until the tick's budget is used up, and
+// post the paths once the round is complete. Every body is traced from the
+// state the round started with, so the paths line up with each other even
+// though the live simulation moves on in between.
+const continuePredictions = () => {
+  const options = stepOptions();
+  if (!prediction || !options) return;
+
+  // The scene was replaced mid-round, so the paths would be stale
+  if (prediction.version !== version) {
+    prediction = null;
+    return;
+  }
+
+  const start = performance.now();
+  do {
+    const bodyId = prediction.queue.shift();
+    if (bodyId === undefined) break;
+
+    const { points, burns } = predictOrbit(prediction.state, bodyId, options);
+    if (points.length === 0) continue;
+    const packed = new Float64Array(points.length * 2);
+    points.forEach((point, index) => {
+      packed[index * 2] = point.x;
+      packed[index * 2 + 1] = point.y;
+    });
+    prediction.paths.push({ bodyId, points: packed, burns });
+  } while (performance.now() - start < PREDICTION_BUDGET_MS);
+
+  if (prediction.queue.length > 0) return;
+  const { paths } = prediction;
+  post({ type: 'predictions', version: prediction.version, paths }, paths.map(path => path.points.buffer));
+  prediction = null;
+};
+
+/**
+ * Advance a state by one fixed step, split into adaptive substeps during
+ * close encounters. Substeps are chosen from the state at the start of the
+ * step, so the trajectory still doesn't depend on the frame rate.
+ */
+const fixedStep = (current: SimulationState, options: StepOptions, config: WorkerSettings) => {
+  const count = config.adaptive ? adaptiveSubsteps(current, config.fixedTimeStep, options, config) : 1;
+  const events: SimulationEvent[] = [];
+  let baselineChanged = false;
+
+  for (let j = 0; j < count; j++) {
+    const since = current.time;
+    const collisions = resolveCollisions(step(current, config.fixedTimeStep / count, options), options);
+    const burns = applyManeuvers(collisions.state, since);
+    current = burns.state;
+    events.push(...collisions.events, ...burns.events);
+    if (collisions.events.length > 0 || burns.events.length > 0) baselineChanged = true;
+  }
+
+  return { state: current, events, substeps: count, baselineChanged };
+};
+
+const advanceSimulation = () => {
+  const now = performance.now();
+  const elapsed = (now - lastTick) / 1000;
+  lastTick = now;
+
+  const options = stepOptions();
+  if (!settings || !options || !running || state.bodies.length <= 1) {
+    accumulator = 0;
+    return;
+  }
+
+  // Wall-clock time only decides how many fixed steps are due
+  const advance = advanceClock(accumulator, elapsed * settings.timeScale, settings.fixedTimeStep, settings.maxSubsteps);
+  accumulator = advance.accumulator;
+  if (advance.steps === 0) return;
+
+  substeps = 1;
+  for (let i = 0; i < advance.steps; i++) {
+    const advanced = fixedStep(state, options, settings);
+    state = advanced.state;
+    substeps = Math.max(substeps, advanced.substeps);
+    pendingEvents.push(...advanced.events);
+    if (advanced.baselineChanged) resetBaseline();
+
+    // The fork takes exactly the same steps, so both runs share one clock
+    if (fork) {
+      const forked = fixedStep(fork, options, settings);
+      fork = forked.state;
+      pendingForkEvents.push(...forked.events);
+    }
+  }
+
+  // Detection is O(n²) in the pairs, so it runs once per snapshot rather
+  // than after every fixed step
+  const detected = detectEvents(state, detector, {
+    G: options.G,
+    closeApproachDistance: settings.closeApproachDistance,
+    bounds: settings.bounds
+  });
+  detector = detected.detector;
+  pendingEvents.push(...detected.events);
+
+  postSnapshot();
+
+  if (!prediction && now - lastPrediction >= PREDICTION_INTERVAL_MS) {
+    startPredictions();
+  }
+};
+
+const tick = () => {
+  advanceSimulation();
+  continuePredictions();
+};
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'load':
+      state = message.state;
+      fork = message.fork;
+      version = message.version;
+      accumulator = 0;
+      pendingEvents = [];
+      pendingForkEvents = [];
+      detector = createEventDetector();
+      resetBaseline();
+      postSnapshot();
+      startPredictions();
+      break;
+    case 'configure':
+      if (changesConservation(settings?.options, message.settings.options)) resetBaseline();
+      settings = message.settings;
+      postSnapshot();
+      startPredictions();
+      break;
+    case 'setRunning':
+      running = message.running;
+      break;
+  }
+});
+
+setInterval(tick, TICK_INTERVAL_MS);
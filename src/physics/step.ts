@@ -0,0 +1,14 @@
+import { INTEGRATORS } from './integrators';
+import { SimulationState, StepOptions } from './types';
+
+/**
+ * Advance the simulation by one time step using the integrator selected in
+ * the options. The input state is never mutated.
+ * @param state Current simulation state
+ * @param dt Time step in simulated seconds
+ * @param options Physics options
+ * @returns The new simulation state
+ */
+export const step = (state: SimulationState, dt: number, options: StepOptions): SimulationState => {
+  return INTEGRATORS[options.integrator].integrate(state, dt, options);
+};
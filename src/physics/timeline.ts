@@ -0,0 +1,104 @@
+// Recorded history of a simulation for rewinding. Frames are kept in a ring
+// buffer of fixed capacity, so the oldest ones are overwritten once it fills.
+// The buffer is mutated in place since it is updated for every snapshot.
+
+export interface TimelineFrame<T> {
+  time: number; // Simulation time of the frame
+  scene: T; // Whatever is needed to restore the scene at that time
+}
+
+export interface Timeline<T> {
+  frames: (TimelineFrame<T> | undefined)[]; // Fixed-size storage
+  start: number; // Index of the oldest frame
+  size: number; // Number of frames recorded
+}
+
+export const createTimeline = <T>(capacity: number): Timeline<T> => ({
+  frames: new Array(capacity).fill(undefined),
+  start: 0,
+  size: 0
+});
+
+// Frame at position `index`, counting from the oldest
+const frameAtIndex = <T>(timeline: Timeline<T>, index: number): TimelineFrame<T> => {
+  return timeline.frames[(timeline.start + index) % timeline.frames.length] as TimelineFrame<T>;
+};
+
+/**
+ * All recorded frames, oldest first
+ */
+export const timelineFrames = <T>(timeline: Timeline<T>): TimelineFrame<T>[] => {
+  return Array.from({ length: timeline.size }, (_, index) => frameAtIndex(timeline, index));
+};
+
+/**
+ * Times covered by the timeline, or null while it is empty
+ */
+export const timelineRange = <T>(timeline: Timeline<T>): { start: number; end: number } | null => {
+  if (timeline.size === 0) return null;
+  return { start: frameAtIndex(timeline, 0).time, end: frameAtIndex(timeline, timeline.size - 1).time };
+};
+
+/**
+ * Drop every frame recorded after `time`, e.g. when the simulation resumes
+ * from an earlier point and the old future no longer applies
+ */
+export const truncateTimeline = <T>(timeline: Timeline<T>, time: number): void => {
+  while (timeline.size > 0 && frameAtIndex(timeline, timeline.size - 1).time > time) {
+    timeline.frames[(timeline.start + timeline.size - 1) % timeline.frames.length] = undefined;
+    timeline.size--;
+  }
+};
+
+/**
+ * Record a frame unless the newest one is less than `interval` older. Frames
+ * later than `time` are discarded first, so the history never branches.
+ * @returns Whether the frame was recorded
+ */
+export const recordFrame = <T>(timeline: Timeline<T>, time: number, scene: T, interval: number): boolean => {
+  truncateTimeline(timeline, time);
+
+  const capacity = timeline.frames.length;
+  if (capacity === 0) return false;
+  if (timeline.size > 0 && time - frameAtIndex(timeline, timeline.size - 1).time < interval) return false;
+
+  if (timeline.size === capacity) {
+    // Full: the new frame takes the place of the oldest one
+    timeline.frames[timeline.start] = { time, scene };
+    timeline.start = (timeline.start + 1) % capacity;
+  } else {
+    timeline.frames[(timeline.start + timeline.size) % capacity] = { time, scene };
+    timeline.size++;
+  }
+  return true;
+};
+
+/**
+ * The newest frame at or before `time`, falling back to the oldest frame for
+ * times before the recorded range. Null while the timeline is empty.
+ */
+export const frameAt = <T>(timeline: Timeline<T>, time: number): TimelineFrame<T> | null => {
+  if (timeline.size === 0) return null;
+
+  // Binary search, since frames are recorded in time order
+  let low = 0;
+  let high = timeline.size - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (frameAtIndex(timeline, middle).time <= time) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return frameAtIndex(timeline, low);
+};
+
+/**
+ * Forget every recorded frame
+ */
+export const clearTimeline = <T>(timeline: Timeline<T>): void => {
+  timeline.frames.fill(undefined);
+  timeline.start = 0;
+  timeline.size = 0;
+};
@@ -0,0 +1,227 @@
+import { radialFrame } from './kinematics';
+import { ManeuverNode } from './maneuvers';
+import { Body, Vector2 } from './types';
+
+// Two-body transfer planning between circular, coplanar orbits around a
+// shared primary. Burn values are prograde delta-v, matching maneuver nodes.
+
+export type TransferType = 'hohmann' | 'bi-elliptic';
+
+export interface TransferBurn {
+  time: number; // Absolute simulated time of the burn
+  prograde: number; // Delta-v along the direction of travel (negative = retrograde)
+}
+
+export interface TransferPlan {
+  type: TransferType;
+  burns: TransferBurn[];
+  totalDeltaV: number; // Sum of |Δv| over all burns
+  waitTime: number; // Time until the first burn, for the right phase angle
+  transferTime: number; // Time from the first to the last burn
+  path: Vector2[]; // Transfer ellipse arcs, for the overlay
+}
+
+// Points per half-ellipse in the overlay path
+const ARC_POINTS = 90;
+
+interface OrbitGeometry {
+  mu: number; // G times the primary's mass
+  center: Vector2; // Position of the primary
+  r1: number; // Orbit radius of the traveller
+  r2: number; // Orbit radius of the target
+  theta1: number; // Current angle of the traveller, measured in the direction of travel
+  theta2: number; // Current angle of the target, same convention
+  direction: 1 | -1; // Sense of rotation in canvas coordinates
+  n1: number; // Angular rate of the traveller on its circular orbit
+  n2: number; // Angular rate of the target
+}
+
+const TWO_PI = 2 * Math.PI;
+
+// Wrap an angle into [0, 2π)
+const wrapAngle = (angle: number): number => ((angle % TWO_PI) + TWO_PI) % TWO_PI;
+
+/**
+ * Describe the traveller's and the target's orbits around `primary`, or null
+ * if either body sits on the primary or the traveller isn't moving around it
+ */
+const orbitGeometry = (traveller: Body, target: Body, primary: Body, G: number): OrbitGeometry | null => {
+  const frame1 = radialFrame(traveller, primary);
+  const frame2 = radialFrame(target, primary);
+  if (!frame1 || !frame2) return null;
+
+  // Sign of the traveller's angular momentum gives the sense of rotation
+  const rx = traveller.position.x - primary.position.x;
+  const ry = traveller.position.y - primary.position.y;
+  const vx = traveller.velocity.x - primary.velocity.x;
+  const vy = traveller.velocity.y - primary.velocity.y;
+  const angularMomentum = rx * vy - ry * vx;
+  if (angularMomentum === 0) return null;
+  const direction = angularMomentum > 0 ? 1 : -1;
+
+  const angleOf = (body: Body) =>
+    direction * Math.atan2(body.position.y - primary.position.y, body.position.x - primary.position.x);
+
+  const mu = G * primary.mass;
+  const r1 = frame1.distance;
+  const r2 = frame2.distance;
+
+  return {
+    mu,
+    center: primary.position,
+    r1,
+    r2,
+    theta1: angleOf(traveller),
+    theta2: angleOf(target),
+    direction,
+    n1: Math.sqrt(mu / (r1 * r1 * r1)),
+    n2: Math.sqrt(mu / (r2 * r2 * r2))
+  };
+};
+
+/**
+ * Time until the target leads the traveller by `lead` radians. Both move on
+ * circular orbits, so the phase angle changes at a constant rate.
+ */
+const timeToPhase = (geometry: OrbitGeometry, lead: number): number => {
+  const { theta1, theta2, n1, n2 } = geometry;
+  const relativeRate = n1 - n2; // Rate at which the traveller gains on the target
+  if (Math.abs(relativeRate) < 1e-12) return 0;
+
+  const current = wrapAngle(theta2 - theta1);
+  const needed = wrapAngle(lead);
+  // The phase angle shrinks when the traveller is faster, so wait for it to come round
+  const gap = relativeRate > 0 ? wrapAngle(current - needed) : wrapAngle(needed - current);
+  return gap / Math.abs(relativeRate);
+};
+
+// Speed on an orbit with semi-major axis `a` at radius `r` (vis-viva)
+const visViva = (mu: number, r: number, a: number): number => Math.sqrt(mu * (2 / r - 1 / a));
+
+/**
+ * Points along half an ellipse from one apsis at `startRadius` to the other at
+ * `endRadius`, starting at `startAngle` around the primary
+ */
+const halfEllipse = (geometry: OrbitGeometry, startRadius: number, endRadius: number, startAngle: number): Vector2[] => {
+  const a = (startRadius + endRadius) / 2;
+  const e = Math.abs(endRadius - startRadius) / (startRadius + endRadius);
+  const semiLatusRectum = a * (1 - e * e);
+  // Starting at periapsis the radius grows with the angle travelled, at apoapsis it shrinks
+  const sign = startRadius <= endRadius ? 1 : -1;
+
+  return Array.from({ length: ARC_POINTS + 1 }, (_, index) => {
+    const travelled = Math.PI * index / ARC_POINTS;
+    const r = semiLatusRectum / (1 + sign * e * Math.cos(travelled));
+    const angle = geometry.direction * (startAngle + travelled);
+    return {
+      x: geometry.center.x + r * Math.cos(angle),
+      y: geometry.center.y + r * Math.sin(angle)
+    };
+  });
+};
+
+/**
+ * Plan a Hohmann transfer: one burn onto an ellipse touching both orbits and
+ * one burn to circularize half an orbit later
+ * @param traveller Body making the transfer, on a circular orbit around `primary`
+ * @param target Body to meet
+ * @param primary Central body both orbit
+ * @param G Gravitational constant
+ * @param time Current simulated time
+ */
+export const planHohmannTransfer = (
+  traveller: Body,
+  target: Body,
+  primary: Body,
+  G: number,
+  time: number
+): TransferPlan | null => {
+  const geometry = orbitGeometry(traveller, target, primary, G);
+  if (!geometry) return null;
+
+  const { mu, r1, r2 } = geometry;
+  const a = (r1 + r2) / 2;
+  const transferTime = Math.PI * Math.sqrt(a * a * a / mu);
+
+  const departure = visViva(mu, r1, a) - Math.sqrt(mu / r1);
+  const arrival = Math.sqrt(mu / r2) - visViva(mu, r2, a);
+
+  // The target has to arrive at the far apsis, half a turn ahead, with the traveller
+  const waitTime = timeToPhase(geometry, Math.PI - geometry.n2 * transferTime);
+  const departureAngle = geometry.theta1 + geometry.n1 * waitTime;
+
+  return {
+    type: 'hohmann',
+    burns: [
+      { time: time + waitTime, prograde: departure },
+      { time: time + waitTime + transferTime, prograde: arrival }
+    ],
+    totalDeltaV: Math.abs(departure) + Math.abs(arrival),
+    waitTime,
+    transferTime,
+    path: halfEllipse(geometry, r1, r2, departureAngle)
+  };
+};
+
+/**
+ * Plan a bi-elliptic transfer: out to an intermediate apoapsis, raise or lower
+ * the far side there, then circularize at the target orbit. Cheaper than
+ * Hohmann for large radius ratios, at the cost of a much longer trip.
+ * @param intermediateRadius Apoapsis of the two transfer ellipses
+ */
+export const planBiEllipticTransfer = (
+  traveller: Body,
+  target: Body,
+  primary: Body,
+  G: number,
+  time: number,
+  intermediateRadius: number
+): TransferPlan | null => {
+  const geometry = orbitGeometry(traveller, target, primary, G);
+  if (!geometry) return null;
+
+  const { mu, r1, r2 } = geometry;
+  const rb = Math.max(intermediateRadius, r1, r2);
+  const a1 = (r1 + rb) / 2;
+  const a2 = (r2 + rb) / 2;
+  const firstLeg = Math.PI * Math.sqrt(a1 * a1 * a1 / mu);
+  const secondLeg = Math.PI * Math.sqrt(a2 * a2 * a2 / mu);
+  const transferTime = firstLeg + secondLeg;
+
+  const departure = visViva(mu, r1, a1) - Math.sqrt(mu / r1);
+  const apoapsis = visViva(mu, rb, a2) - visViva(mu, rb, a1);
+  const arrival = Math.sqrt(mu / r2) - visViva(mu, r2, a2);
+
+  // Two half-ellipses bring the traveller back to the departure angle
+  const waitTime = timeToPhase(geometry, TWO_PI - geometry.n2 * transferTime);
+  const departureAngle = geometry.theta1 + geometry.n1 * waitTime;
+
+  return {
+    type: 'bi-elliptic',
+    burns: [
+      { time: time + waitTime, prograde: departure },
+      { time: time + waitTime + firstLeg, prograde: apoapsis },
+      { time: time + waitTime + transferTime, prograde: arrival }
+    ],
+    totalDeltaV: Math.abs(departure) + Math.abs(apoapsis) + Math.abs(arrival),
+    waitTime,
+    transferTime,
+    path: [
+      ...halfEllipse(geometry, r1, rb, departureAngle),
+      ...halfEllipse(geometry, rb, r2, departureAngle + Math.PI)
+    ]
+  };
+};
+
+/**
+ * Turn a plan into maneuver nodes, ready to be scheduled on the traveller
+ * @param idPrefix Prefix for the node ids, which must be unique in the scene
+ */
+export const transferManeuvers = (plan: TransferPlan, idPrefix: string): ManeuverNode[] => {
+  return plan.burns.map((burn, index) => ({
+    id: `${idPrefix}-${index}`,
+    time: burn.time,
+    prograde: burn.prograde,
+    radial: 0
+  }));
+};
@@ -0,0 +1,57 @@
+// Core data model for the N-body physics engine.
+// Nothing in this folder depends on React, the DOM or the store, so the same
+// code can drive the live canvas, the orbit predictor and headless tools.
+
+import type { CollisionMode } from './collisions';
+import type { EnvironmentSettings } from './environment';
+import type { ForceLawParameters, ForceLawType } from './forceLaws';
+import type { ForceSolverType } from './forces';
+import type { IntegratorType } from './integrators';
+import type { ManeuverNode } from './maneuvers';
+
+export interface Vector2 {
+  x: number;
+  y: number;
+}
+
+// A single point mass. Positions are always body centers in canvas units.
+export interface Body {
+  id: string;
+  position: Vector2;
+  velocity: Vector2;
+  mass: number;
+  radius: number;
+  color?: string; // Only used to blend colors when bodies merge
+  charge?: number; // Electric charge, read by the Coulomb force law
+  isFixed?: boolean; // Pinned in place (unless the simulation is barycentric)
+  primaryId?: string; // Body this one orbits, used for orbital frames
+  maneuvers?: ManeuverNode[]; // Pending burns, executed by the simulation loop
+}
+
+export interface SimulationState {
+  bodies: Body[];
+  time: number; // Simulated seconds since the state was created
+}
+
+export interface StepOptions {
+  G: number; // Gravitational constant
+  softening: number; // Plummer softening length ε, in canvas units
+  forceLaws: ForceLawType[]; // Pairwise force laws summed for every interacting pair
+  forceLawParameters: ForceLawParameters; // Constants of the non-Newtonian laws
+  environment: EnvironmentSettings; // Drag, uniform field and halo acting on every body
+  planetaryForces: boolean; // When false, bodies only feel their own primary
+  barycentric: boolean; // Ignore `isFixed` so every body, stars included, responds to gravity
+  integrator: IntegratorType; // Numerical integration scheme
+  forceSolver: ForceSolverType; // Exact pairwise summation or Barnes-Hut approximation
+  theta: number; // Barnes-Hut opening angle (ignored by the direct solver)
+  collisionMode: CollisionMode; // What happens when two bodies touch
+  restitution: number; // Bounciness for the bounce mode (1 = perfectly elastic)
+}
+
+// Force exerted on one body by another, used for visualization
+export interface ForceContribution {
+  targetId: string;
+  sourceId: string;
+  forceX: number;
+  forceY: number;
+}
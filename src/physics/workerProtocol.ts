@@ -0,0 +1,105 @@
+import { QuadtreeCell } from './barnesHut';
+import { DiagnosticsSample } from './diagnostics';
+import { Divergence } from './divergence';
+import { EnvironmentalForce } from './environment';
+import { PredictedBurn } from './predict';
+import { SimulationEvent } from './events';
+import { Body, ForceContribution, SimulationState, StepOptions } from './types';
+
+// Messages exchanged between the UI thread and the simulation worker.
+// Positions and velocities travel as flat Float64Arrays whose buffers are
+// transferred rather than copied.
+
+// Settings the worker needs besides the scene itself
+export interface WorkerSettings {
+  options: StepOptions;
+  timeScale: number;
+  fixedTimeStep: number;
+  maxSubsteps: number;
+  adaptive: boolean; // Split each fixed step into substeps during close encounters
+  minTimeStep: number; // Smallest adaptive substep
+  maxTimeStep: number; // Largest adaptive substep
+  collectForces: boolean; // Report force contributions with each snapshot
+  collectQuadtree: boolean; // Report quadtree cells with each snapshot
+  collectDiagnostics: boolean; // Measure conservation with every snapshot rather than occasionally
+  predictOrbits: boolean; // Periodically send predicted orbit paths
+  closeApproachDistance: number; // Surface gap that counts as a close approach
+  bounds: { width: number; height: number }; // Leaving this area is reported as an event
+}
+
+export type WorkerRequest =
+  | { type: 'load'; state: SimulationState; fork: SimulationState | null; version: number }
+  | { type: 'configure'; settings: WorkerSettings }
+  | { type: 'setRunning'; running: boolean };
+
+// The what-if copy of the scene, stepped in lockstep with the original
+export interface ForkSnapshot {
+  ids: string[];
+  kinematics: Float64Array; // Same layout as the original's
+  events: SimulationEvent[]; // Collisions and burns in the fork since the previous snapshot
+  divergence: Divergence; // Distance from the original run
+}
+
+export interface SnapshotMessage {
+  type: 'snapshot';
+  version: number; // Scene version this snapshot belongs to
+  time: number;
+  ids: string[];
+  kinematics: Float64Array; // x, y, vx, vy, mass, radius per body, in `ids` order
+  events: SimulationEvent[]; // Everything that happened since the previous snapshot
+  forces?: ForceContribution[]; // Forces as configured, for vectors
+  lineForces?: ForceContribution[]; // Forces between every pair, for force lines
+  environmentForces?: EnvironmentalForce[]; // Drag, field and halo forces on each body
+  quadtree?: QuadtreeCell[];
+  diagnostics?: DiagnosticsSample; // Conservation totals and drift since the baseline, when measured
+  substeps: number; // Most substeps any fixed step was split into since the previous snapshot
+  fork?: ForkSnapshot; // Present while a fork is running
+}
+
+export interface PredictionsMessage {
+  type: 'predictions';
+  version: number;
+  paths: { bodyId: string; points: Float64Array; burns: PredictedBurn[] }[]; // x, y per point
+}
+
+export type WorkerResponse = SnapshotMessage | PredictionsMessage;
+
+// Number of values stored per body in a kinematics array
+export const KINEMATICS_STRIDE = 6;
+
+/**
+ * Pack body positions, velocities, masses and radii into a flat array.
+ * Mass and radius are included because collisions can change them.
+ */
+export const packKinematics = (bodies: Body[]): Float64Array => {
+  const data = new Float64Array(bodies.length * KINEMATICS_STRIDE);
+
+  bodies.forEach((body, index) => {
+    const offset = index * KINEMATICS_STRIDE;
+    data[offset] = body.position.x;
+    data[offset + 1] = body.position.y;
+    data[offset + 2] = body.velocity.x;
+    data[offset + 3] = body.velocity.y;
+    data[offset + 4] = body.mass;
+    data[offset + 5] = body.radius;
+  });
+
+  return data;
+};
+
+/**
+ * Read the body at `index` back from a packed array
+ */
+export const unpackKinematics = (
+  data: Float64Array,
+  index: number
+): Pick<Body, 'position' | 'velocity' | 'mass' | 'radius'> => {
+  const offset = index * KINEMATICS_STRIDE;
+
+  return {
+    position: { x: data[offset], y: data[offset + 1] },
+    velocity: { x: data[offset + 2], y: data[offset + 3] },
+    mass: data[offset + 4],
+    radius: data[offset + 5]
+  };
+};
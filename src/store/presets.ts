@@ -0,0 +1,307 @@
+import { BaseItem, calculateCenteredTransform, CANVAS_CENTER_X, CANVAS_CENTER_Y } from '../types/canvas';
+import {
+  Body,
+  circularOrbitVelocity,
+  DEFAULT_ENVIRONMENT,
+  lagrangePoints,
+  stateFromElements,
+  Vector2
+} from '../physics';
+import { SCENE_FORMAT, SCENE_VERSION, SceneFile } from './sceneFile';
+import { SCENE_SETTING_KEYS, SceneSettings, useSimulationStore } from './simulationStore';
+
+// Ready-made scenes for the command palette. Each one is laid out around the
+// canvas center and comes with the settings it was tuned for.
+
+interface BodySpec {
+  id: string;
+  name: string;
+  color: string;
+  radius: number;
+  mass: number;
+  position: Vector2;
+  velocity: Vector2;
+  type?: 'planet' | 'spacecraft';
+  isFixed?: boolean;
+  primaryId?: string;
+}
+
+export interface ScenePreset {
+  id: string;
+  name: string;
+  description: string;
+  settings: Partial<SceneSettings>; // Recommended settings; the rest take their defaults
+  scale: number; // Zoom that frames the whole scene
+  bodies: (settings: SceneSettings) => BodySpec[];
+}
+
+const CENTER: Vector2 = { x: CANVAS_CENTER_X, y: CANVAS_CENTER_Y };
+
+const asBody = (spec: BodySpec): Body => ({
+  id: spec.id,
+  position: spec.position,
+  velocity: spec.velocity,
+  mass: spec.mass,
+  radius: spec.radius,
+  isFixed: !!spec.isFixed,
+  primaryId: spec.primaryId
+});
+
+const bodyItem = (spec: BodySpec): BaseItem => ({
+  id: spec.id,
+  x: spec.position.x - spec.radius,
+  y: spec.position.y - spec.radius,
+  width: spec.radius * 2,
+  height: spec.radius * 2,
+  type: spec.type ?? 'planet',
+  data: {
+    name: spec.name,
+    color: spec.color,
+    radius: spec.radius,
+    mass: spec.mass,
+    velocity: spec.velocity,
+    isOrbital: true,
+    isFixed: spec.isFixed,
+    primaryId: spec.primaryId,
+    ...(spec.type === 'spacecraft' ? { maneuvers: [] } : {})
+  }
+});
+
+// A pinned star at the canvas center
+const centralStar = (radius: number, mass: number): BodySpec => ({
+  id: 'sun',
+  name: 'Sun',
+  color: '#FFA500',
+  radius,
+  mass,
+  position: { ...CENTER },
+  velocity: { x: 0, y: 0 },
+  isFixed: true
+});
+
+/**
+ * A body on a circular, counter-clockwise orbit around `primary`
+ * @param angle Position angle on screen, counter-clockwise from the +x axis
+ */
+const circularOrbiter = (
+  spec: Omit<BodySpec, 'position' | 'velocity'>,
+  primary: BodySpec,
+  distance: number,
+  angle: number,
+  settings: SceneSettings
+): BodySpec => {
+  const position = {
+    x: primary.position.x + distance * Math.cos(angle),
+    y: primary.position.y - distance * Math.sin(angle)
+  };
+  const velocity = circularOrbitVelocity({ ...asBody(primary), id: spec.id, position }, asBody(primary), settings.G, settings.softening);
+  return { ...spec, position, velocity, primaryId: primary.id };
+};
+
+// Rotate a point and its velocity rigidly about `center`, turning
+// counter-clockwise on screen
+const rotateState = (position: Vector2, velocity: Vector2, center: Vector2, angle: number) => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = position.x - center.x;
+  const dy = position.y - center.y;
+  return {
+    position: { x: center.x + dx * cos + dy * sin, y: center.y - dx * sin + dy * cos },
+    velocity: { x: velocity.x * cos + velocity.y * sin, y: -velocity.x * sin + velocity.y * cos }
+  };
+};
+
+export const SCENE_PRESETS: ScenePreset[] = [
+  {
+    id: 'inner-solar-system',
+    name: 'Inner Solar System',
+    description: 'Mercury to Mars at their real relative distances, so the inner planets visibly lap the outer ones',
+    settings: { softening: 1 },
+    scale: 0.7,
+    bodies: (settings) => {
+      const sun = centralStar(40, 1000000);
+      return [
+        sun,
+        circularOrbiter({ id: 'mercury', name: 'Mercury', color: '#9E9E9E', radius: 4, mass: 2 }, sun, 125, 1.2, settings),
+        circularOrbiter({ id: 'venus', name: 'Venus', color: '#FFCC80', radius: 7, mass: 25 }, sun, 230, 3.6, settings),
+        circularOrbiter({ id: 'earth', name: 'Earth', color: '#2196F3', radius: 8, mass: 30 }, sun, 320, 0, settings),
+        circularOrbiter({ id: 'mars', name: 'Mars', color: '#E64A19', radius: 5, mass: 3 }, sun, 486, 5.0, settings)
+      ];
+    }
+  },
+  {
+    id: 'circumbinary-planet',
+    name: 'Binary Star with Circumbinary Planet',
+    description: 'Two equal stars on a tight mutual orbit, and a planet circling both well outside them',
+    settings: { softening: 2 },
+    scale: 0.5,
+    bodies: (settings) => {
+      const starMass = 500000;
+      const separation = 200;
+      // Each star moves at half the relative orbital speed around the barycenter
+      const starSpeed = Math.sqrt(settings.G * 2 * starMass / separation) / 2;
+      const planetSpeed = Math.sqrt(settings.G * 2 * starMass / 700);
+      return [
+        {
+          id: 'star-a', name: 'Star A', color: '#FFB74D', radius: 30, mass: starMass,
+          position: { x: CENTER.x + separation / 2, y: CENTER.y }, velocity: { x: 0, y: -starSpeed },
+          primaryId: 'star-b'
+        },
+        {
+          id: 'star-b', name: 'Star B', color: '#FF8A65', radius: 30, mass: starMass,
+          position: { x: CENTER.x - separation / 2, y: CENTER.y }, velocity: { x: 0, y: starSpeed },
+          primaryId: 'star-a'
+        },
+        {
+          id: 'tatooine', name: 'Tatooine', color: '#D7CCC8', radius: 8, mass: 1,
+          position: { x: CENTER.x, y: CENTER.y - 700 }, velocity: { x: -planetSpeed, y: 0 }
+        }
+      ];
+    }
+  },
+  {
+    id: 'figure-eight',
+    name: 'Figure-Eight Three-Body Choreography',
+    description: 'Three equal masses chasing each other along a single figure-eight; needs softening off to stay periodic',
+    settings: { softening: 0, collisionMode: 'pass-through' },
+    scale: 1.5,
+    bodies: (settings) => {
+      const mass = 100000;
+      const length = 200; // Canvas units per unit of the dimensionless solution
+      const speed = Math.sqrt(settings.G * mass / length);
+      // Initial conditions of the periodic solution for G = m = 1
+      const position = { x: 0.97000436, y: -0.24308753 };
+      const velocity = { x: -0.93240737, y: -0.86473146 };
+      const body = (id: string, name: string, color: string, p: Vector2, v: Vector2): BodySpec => ({
+        id, name, color, radius: 10, mass,
+        position: { x: CENTER.x + p.x * length, y: CENTER.y + p.y * length },
+        velocity: { x: v.x * speed, y: v.y * speed }
+      });
+      return [
+        body('body-1', 'Body 1', '#F44336', position, { x: -velocity.x / 2, y: -velocity.y / 2 }),
+        body('body-2', 'Body 2', '#4CAF50', { x: -position.x, y: -position.y }, { x: -velocity.x / 2, y: -velocity.y / 2 }),
+        body('body-3', 'Body 3', '#2196F3', { x: 0, y: 0 }, velocity)
+      ];
+    }
+  },
+  {
+    id: 'sun-jupiter-trojans',
+    name: 'Sun–Jupiter with Trojans',
+    description: 'Asteroids librating around the L4 and L5 points of a heavy Jupiter, 60° ahead of and behind it',
+    settings: { softening: 1, collisionMode: 'pass-through' }, // Trojans are test particles
+    scale: 0.7,
+    bodies: (settings) => {
+      const sunMass = 1000000;
+      const jupiterMass = 5000;
+      const separation = 500;
+      const totalMass = sunMass + jupiterMass;
+      const relativeSpeed = Math.sqrt(settings.G * totalMass / separation);
+
+      // Both bodies circle the barycenter, which sits at the canvas center
+      const sun: BodySpec = {
+        id: 'sun', name: 'Sun', color: '#FFA500', radius: 40, mass: sunMass,
+        position: { x: CENTER.x - separation * jupiterMass / totalMass, y: CENTER.y },
+        velocity: { x: 0, y: relativeSpeed * jupiterMass / totalMass }
+      };
+      const jupiter: BodySpec = {
+        id: 'jupiter', name: 'Jupiter', color: '#FFCC80', radius: 15, mass: jupiterMass,
+        position: { x: CENTER.x + separation * sunMass / totalMass, y: CENTER.y },
+        velocity: { x: 0, y: -relativeSpeed * sunMass / totalMass },
+        primaryId: 'sun'
+      };
+
+      const system = lagrangePoints(asBody(sun), asBody(jupiter), settings);
+      const trojans = (system?.points ?? [])
+        .filter(point => point.name === 'L4' || point.name === 'L5')
+        .flatMap(point => [-0.08, 0, 0.08].map((offset, index): BodySpec => ({
+          id: `trojan-${point.name}-${index}`,
+          name: `${point.name} Trojan ${index + 1}`,
+          color: point.name === 'L4' ? '#81C784' : '#64B5F6',
+          radius: 4,
+          mass: 0.001,
+          ...rotateState(point.position, point.velocity, CENTER, offset),
+          primaryId: 'sun'
+        })));
+
+      return [sun, jupiter, ...trojans];
+    }
+  },
+  {
+    id: 'slingshot-flyby',
+    name: 'Slingshot Flyby',
+    description: 'A probe on a transfer orbit passes just behind a massive planet and is flung out of the system',
+    settings: { softening: 1, fixedTimeStep: 1 / 240 },
+    scale: 0.6,
+    bodies: (settings) => {
+      const sun = centralStar(40, 1000000);
+      const mu = settings.G * sun.mass;
+      const periapsis = 250;
+      const apoapsis = 640;
+      const semiMajorAxis = (periapsis + apoapsis) / 2;
+      const planetDistance = 600;
+
+      // Start the planet so that it passes the probe's apoapsis just ahead of it;
+      // trailing the planet pulls the probe forward onto an escape orbit
+      const timeToApoapsis = Math.PI * Math.sqrt(Math.pow(semiMajorAxis, 3) / mu);
+      const planetRate = Math.sqrt(mu / Math.pow(planetDistance, 3));
+      const planetAngle = Math.PI + 0.31 - planetRate * timeToApoapsis;
+
+      const probe = stateFromElements({
+        semiMajorAxis,
+        eccentricity: (apoapsis - periapsis) / (apoapsis + periapsis),
+        argumentOfPeriapsis: 0,
+        trueAnomaly: 0,
+        direction: 1
+      }, asBody(sun), settings.G);
+
+      return [
+        sun,
+        circularOrbiter({ id: 'giant', name: 'Giant', color: '#FFB74D', radius: 15, mass: 20000 }, sun, planetDistance, planetAngle, settings),
+        {
+          id: 'probe', name: 'Probe', color: '#E0E0E0', radius: 6, mass: 0.001, type: 'spacecraft',
+          position: probe?.position ?? { x: CENTER.x + periapsis, y: CENTER.y },
+          velocity: probe?.velocity ?? { x: 0, y: 0 },
+          primaryId: 'sun'
+        }
+      ];
+    }
+  },
+  {
+    id: 'decaying-orbit',
+    name: 'Decaying Orbits',
+    description: 'Three satellites in a draggy medium spiral into the Sun; the lighter ones fall first',
+    settings: { softening: 1, environment: { ...DEFAULT_ENVIRONMENT, dragModel: 'linear', dragCoefficient: 0.02 } },
+    scale: 0.6,
+    bodies: (settings) => {
+      const sun = centralStar(40, 1000000);
+      return [
+        sun,
+        circularOrbiter({ id: 'light', name: 'Light (m=1)', color: '#4FC3F7', radius: 6, mass: 1 }, sun, 500, 0, settings),
+        circularOrbiter({ id: 'medium', name: 'Medium (m=2)', color: '#AED581', radius: 8, mass: 2 }, sun, 500, 2 * Math.PI / 3, settings),
+        circularOrbiter({ id: 'heavy', name: 'Heavy (m=4)', color: '#FF8A65', radius: 10, mass: 4 }, sun, 500, 4 * Math.PI / 3, settings)
+      ];
+    }
+  }
+];
+
+/**
+ * The scene a preset describes, with its recommended settings on top of the
+ * defaults and the clock back at zero
+ */
+export const presetScene = (preset: ScenePreset): SceneFile => {
+  const defaults = useSimulationStore.getInitialState();
+  const settings = Object.fromEntries(
+    SCENE_SETTING_KEYS.map(key => [key, preset.settings[key] ?? defaults[key]])
+  ) as unknown as SceneSettings;
+  const items = preset.bodies({ ...settings, simulationTime: 0 }).map(bodyItem);
+
+  return {
+    format: SCENE_FORMAT,
+    version: SCENE_VERSION,
+    savedAt: new Date().toISOString(),
+    itemTypes: [...new Set(items.map(item => item.type))],
+    items,
+    settings: { ...settings, simulationTime: 0 },
+    transform: calculateCenteredTransform(preset.scale)
+  };
+};
@@ -0,0 +1,286 @@
+import { BaseItem, calculateCenteredTransform, isBodyItem } from '../types/canvas';
+import { DEFAULT_FORCE_LAW_PARAMETERS, FORCE_LAWS, HALO_PROFILES, INTEGRATORS } from '../physics';
+import { SCENE_SETTING_KEYS, SceneSettings, useSimulationStore } from './simulationStore';
+
+// Saved scenes are plain JSON. Every file records the schema version it was
+// written with; older versions are migrated up to the current one on load.
+
+export const SCENE_FORMAT = 'orbital-scene';
+export const SCENE_VERSION = 1;
+
+export interface CameraTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export interface SceneFile {
+  format: typeof SCENE_FORMAT;
+  version: typeof SCENE_VERSION;
+  savedAt: string; // ISO timestamp
+  itemTypes: string[]; // Item types the scene uses, checked before loading
+  items: BaseItem[];
+  settings: SceneSettings;
+  transform: CameraTransform;
+}
+
+/**
+ * Thrown when a scene can't be read. The message names the offending field
+ * so it can be shown to the user as is.
+ */
+export class SceneValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneValidationError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Upgrades from each older version to the next, keyed by the version they
+// upgrade from. Add one whenever SCENE_VERSION is bumped.
+const MIGRATIONS: Record<number, (scene: JsonObject) => JsonObject> = {
+  // Version 0 is a bare list of canvas items without settings or camera.
+  // Settings fall back to their defaults and the view is centered.
+  0: (scene) => ({
+    ...scene,
+    version: 1,
+    settings: {},
+    transform: calculateCenteredTransform()
+  })
+};
+
+const isObject = (value: unknown): value is JsonObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const requireObject = (value: unknown, path: string): JsonObject => {
+  if (!isObject(value)) throw new SceneValidationError(`${path} must be an object`);
+  return value;
+};
+
+const requireNumber = (value: unknown, path: string): number => {
+  if (!isFiniteNumber(value)) throw new SceneValidationError(`${path} must be a number`);
+  return value;
+};
+
+const requireString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') throw new SceneValidationError(`${path} must be a string`);
+  return value;
+};
+
+const requirePositive = (value: unknown, path: string): number => {
+  if (requireNumber(value, path) <= 0) throw new SceneValidationError(`${path} must be positive`);
+  return value as number;
+};
+
+const requireBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw new SceneValidationError(`${path} must be true or false`);
+  return value;
+};
+
+const requireVector = (value: unknown, path: string): void => {
+  const vector = requireObject(value, path);
+  requireNumber(vector.x, `${path}.x`);
+  requireNumber(vector.y, `${path}.y`);
+};
+
+const requireOneOf = (value: unknown, options: readonly string[], path: string): void => {
+  if (typeof value !== 'string' || !options.includes(value)) {
+    throw new SceneValidationError(`${path} must be one of ${options.join(', ')}`);
+  }
+};
+
+const validateManeuvers = (value: unknown, path: string): void => {
+  if (!Array.isArray(value)) throw new SceneValidationError(`${path} must be a list`);
+  value.forEach((entry, index) => {
+    const node = requireObject(entry, `${path}[${index}]`);
+    requireString(node.id, `${path}[${index}].id`);
+    ['time', 'prograde', 'radial'].forEach(key => requireNumber(node[key], `${path}[${index}].${key}`));
+  });
+};
+
+const validateEnvironment = (value: unknown): void => {
+  const environment = requireObject(value, 'settings.environment');
+  requireOneOf(environment.dragModel, ['none', 'linear', 'quadratic'], 'settings.environment.dragModel');
+  requireNumber(environment.dragCoefficient, 'settings.environment.dragCoefficient');
+  requireVector(environment.uniformField, 'settings.environment.uniformField');
+
+  const halo = requireObject(environment.halo, 'settings.environment.halo');
+  requireBoolean(halo.enabled, 'settings.environment.halo.enabled');
+  requireOneOf(halo.profile, Object.keys(HALO_PROFILES), 'settings.environment.halo.profile');
+  requireVector(halo.center, 'settings.environment.halo.center');
+  requireNumber(halo.mass, 'settings.environment.halo.mass');
+  requirePositive(halo.scaleRadius, 'settings.environment.halo.scaleRadius');
+};
+
+const validateItem = (value: unknown, index: number, knownTypes: string[]): BaseItem => {
+  const path = `items[${index}]`;
+  const item = requireObject(value, path);
+
+  requireString(item.id, `${path}.id`);
+  ['x', 'y', 'width', 'height'].forEach(key => requireNumber(item[key], `${path}.${key}`));
+  const type = requireString(item.type, `${path}.type`);
+  if (!knownTypes.includes(type)) {
+    throw new SceneValidationError(`${path}.type "${type}" is not an item type this app knows`);
+  }
+
+  const data = requireObject(item.data, `${path}.data`);
+  const result = item as unknown as BaseItem;
+  if (!isBodyItem(result)) return result;
+
+  // Simulated bodies need enough to build a physics body from; a zero or
+  // negative mass or radius would break the force and collision maths
+  requirePositive(data.mass, `${path}.data.mass`);
+  requirePositive(data.radius, `${path}.data.radius`);
+  if (data.velocity !== undefined) requireVector(data.velocity, `${path}.data.velocity`);
+  if (data.primaryId !== undefined) requireString(data.primaryId, `${path}.data.primaryId`);
+  if (data.maneuvers !== undefined) validateManeuvers(data.maneuvers, `${path}.data.maneuvers`);
+  return result;
+};
+
+/**
+ * Check the saved settings against the store. Settings missing from the file
+ * (e.g. added to the app after it was saved) take their default values.
+ */
+const validateSettings = (value: unknown): SceneSettings => {
+  const settings = requireObject(value, 'settings');
+  const defaults = useSimulationStore.getInitialState();
+
+  const result = Object.fromEntries(SCENE_SETTING_KEYS.map(key => {
+    const saved = settings[key];
+    const fallback = defaults[key];
+    if (saved === undefined) return [key, fallback];
+
+    const path = `settings.${key}`;
+    if (typeof fallback === 'number') requireNumber(saved, path);
+    if (typeof fallback === 'boolean') requireBoolean(saved, path);
+    if (isObject(fallback)) requireObject(saved, path);
+    return [key, saved];
+  })) as unknown as SceneSettings;
+
+  requireOneOf(result.integrator, Object.keys(INTEGRATORS), 'settings.integrator');
+  if (!Array.isArray(result.forceLaws) || result.forceLaws.some(law => !(law in FORCE_LAWS))) {
+    throw new SceneValidationError('settings.forceLaws must list known force laws');
+  }
+  requireOneOf(result.forceSolver, ['direct', 'barnes-hut'], 'settings.forceSolver');
+  requireOneOf(result.collisionMode, ['merge', 'bounce', 'pass-through'], 'settings.collisionMode');
+
+  // Nested settings are read field by field on every step, so a missing one
+  // would only fail later, inside the worker
+  Object.keys(DEFAULT_FORCE_LAW_PARAMETERS).forEach(key => {
+    requireNumber((result.forceLawParameters as unknown as JsonObject)[key], `settings.forceLawParameters.${key}`);
+  });
+  validateEnvironment(result.environment);
+
+  // Without these the clock would stall or run backwards
+  requirePositive(result.fixedTimeStep, 'settings.fixedTimeStep');
+  requirePositive(result.maxSubsteps, 'settings.maxSubsteps');
+  requirePositive(result.timeScale, 'settings.timeScale');
+  return result;
+};
+
+/**
+ * Bring a parsed scene of any older version up to SCENE_VERSION
+ */
+const migrateScene = (scene: JsonObject): JsonObject => {
+  let version = requireNumber(scene.version, 'version');
+  if (version > SCENE_VERSION) {
+    throw new SceneValidationError(
+      `This scene was saved with format version ${version}, newer than the supported version ${SCENE_VERSION}`
+    );
+  }
+
+  while (version < SCENE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new SceneValidationError(`Scene format version ${version} is not supported`);
+    scene = migrate(scene);
+    version = requireNumber(scene.version, 'version');
+  }
+  return scene;
+};
+
+/**
+ * Build the saved form of a scene
+ * @param items All canvas items
+ * @param transform Camera position and zoom
+ */
+export const serializeScene = (items: BaseItem[], transform: CameraTransform): SceneFile => {
+  const state = useSimulationStore.getState();
+
+  return {
+    format: SCENE_FORMAT,
+    version: SCENE_VERSION,
+    savedAt: new Date().toISOString(),
+    itemTypes: [...new Set(items.map(item => item.type))],
+    items,
+    settings: Object.fromEntries(SCENE_SETTING_KEYS.map(key => [key, state[key]])) as unknown as SceneSettings,
+    transform
+  };
+};
+
+/**
+ * Parse, migrate and validate a saved scene
+ * @param text Contents of a scene file
+ * @param knownTypes Item types the canvas can render
+ * @throws SceneValidationError describing the first problem found
+ */
+export const parseScene = (text: string, knownTypes: string[]): SceneFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SceneValidationError('The file is not valid JSON');
+  }
+
+  // A bare list of items predates the schema
+  const raw = Array.isArray(parsed)
+    ? { format: SCENE_FORMAT, version: 0, items: parsed }
+    : requireObject(parsed, 'The scene');
+  if (raw.format !== SCENE_FORMAT) {
+    throw new SceneValidationError(`The file is not a scene (expected format "${SCENE_FORMAT}")`);
+  }
+
+  const scene = migrateScene(raw);
+
+  // Report every missing item type at once rather than item by item
+  if (Array.isArray(scene.itemTypes)) {
+    const unknown = scene.itemTypes.filter(type => !knownTypes.includes(type as string));
+    if (unknown.length > 0) {
+      throw new SceneValidationError(`The scene uses item types this app doesn't have: ${unknown.join(', ')}`);
+    }
+  }
+
+  if (!Array.isArray(scene.items)) throw new SceneValidationError('items must be a list');
+  const items = scene.items.map((item, index) => validateItem(item, index, knownTypes));
+  const ids = new Set(items.map(item => item.id));
+  if (ids.size !== items.length) throw new SceneValidationError('items contain duplicate ids');
+  items.forEach((item, index) => {
+    const primaryId = item.data.primaryId;
+    if (primaryId !== undefined && (primaryId === item.id || !ids.has(primaryId))) {
+      throw new SceneValidationError(`items[${index}].data.primaryId "${primaryId}" is not another item in the scene`);
+    }
+  });
+
+  const transform = requireObject(scene.transform, 'transform');
+  const camera = {
+    x: requireNumber(transform.x, 'transform.x'),
+    y: requireNumber(transform.y, 'transform.y'),
+    scale: requireNumber(transform.scale, 'transform.scale')
+  };
+  if (camera.scale <= 0) throw new SceneValidationError('transform.scale must be positive');
+
+  return {
+    format: SCENE_FORMAT,
+    version: SCENE_VERSION,
+    savedAt: typeof scene.savedAt === 'string' ? scene.savedAt : '',
+    itemTypes: [...new Set(items.map(item => item.type))],
+    items,
+    settings: validateSettings(scene.settings),
+    transform: camera
+  };
+};
@@ -0,0 +1,57 @@
+import { SceneFile, SceneValidationError } from './sceneFile';
+
+// Scenes shared as links travel in the URL hash: the scene JSON, deflated
+// and base64url-encoded, so nothing has to be uploaded anywhere.
+
+export const SCENE_LINK_PREFIX = '#scene=';
+
+const compress = async (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (bytes: Uint8Array): Promise<string> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  // Built in chunks, since spreading a long array into one call overflows the stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/**
+ * Whether a URL hash carries a shared scene
+ */
+export const isSceneLink = (hash: string): boolean => hash.startsWith(SCENE_LINK_PREFIX);
+
+/**
+ * Link to the current page that reproduces `scene` when opened
+ */
+export const encodeSceneLink = async (scene: SceneFile): Promise<string> => {
+  const encoded = toBase64Url(await compress(JSON.stringify(scene)));
+  return `${window.location.origin}${window.location.pathname}${SCENE_LINK_PREFIX}${encoded}`;
+};
+
+/**
+ * Scene JSON carried by a URL hash, ready for `parseScene`
+ * @throws SceneValidationError when the hash is not a scene or is damaged
+ */
+export const decodeSceneLink = async (hash: string): Promise<string> => {
+  if (!isSceneLink(hash)) throw new SceneValidationError('The link does not contain a scene');
+
+  try {
+    return await decompress(fromBase64Url(hash.slice(SCENE_LINK_PREFIX.length)));
+  } catch {
+    throw new SceneValidationError('The link is damaged or incomplete');
+  }
+};
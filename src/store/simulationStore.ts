@@ -1,4 +1,77 @@
 import { create } from 'zustand';
+import {
+  CollisionMode,
+  DEFAULT_ENVIRONMENT,
+  DEFAULT_FIXED_TIME_STEP,
+  DEFAULT_FORCE_LAW_PARAMETERS,
+  DEFAULT_MAX_SUBSTEPS,
+  DEFAULT_MAX_TIME_STEP,
+  DEFAULT_MIN_TIME_STEP,
+  DEFAULT_RESTITUTION,
+  DEFAULT_SEED,
+  DEFAULT_SOFTENING,
+  DEFAULT_THETA,
+  DiagnosticsSample,
+  EnvironmentSettings,
+  ForceLawParameters,
+  ForceLawType,
+  ForceSolverType,
+  IntegratorType,
+  SimulationEvent,
+  Vector2
+} from '../physics';
+
+// A simulation event as shown in the UI, with the names of the bodies involved
+export interface EventLogEntry {
+  id: number;
+  event: SimulationEvent;
+  bodyNames: string[];
+}
+
+// Bodies the canvas should center the view on, and where to look instead
+// if none of them exist any more
+export interface FocusRequest {
+  bodyIds: string[];
+  fallback: Vector2;
+}
+
+// Oldest entries are dropped beyond this
+const MAX_EVENT_LOG_ENTRIES = 200;
+
+// Diagnostics history kept for the sparkline, and how often (in simulated
+// seconds) a sample is added to it
+const MAX_DIAGNOSTICS_HISTORY = 120;
+const DIAGNOSTICS_HISTORY_INTERVAL = 0.25;
+
+// Store fields saved with a scene: the physics setup and the clock
+export const SCENE_SETTING_KEYS = [
+  'G',
+  'softening',
+  'forceLaws',
+  'forceLawParameters',
+  'environment',
+  'planetaryForces',
+  'barycentric',
+  'integrator',
+  'forceSolver',
+  'theta',
+  'collisionMode',
+  'restitution',
+  'timeScale',
+  'fixedTimeStep',
+  'maxSubsteps',
+  'adaptiveTimeStep',
+  'minTimeStep',
+  'maxTimeStep',
+  'seed',
+  'simulationTime',
+  'closeApproachDistance'
+] as const;
+
+export type SceneSettings = Pick<SimulationState, typeof SCENE_SETTING_KEYS[number]>;
+
+// Ways of getting a scene in or out of the app, besides the autosave
+export type SceneFileRequest = 'save' | 'load' | 'copy-link';
 
 interface SimulationState {
   isPlaying: boolean;
@@ -6,9 +79,46 @@ interface SimulationState {
   showOrbits: boolean; // Whether to show orbit path predictions
   showTrails: boolean; // Whether to show actual orbit trails
   planetaryForces: boolean; // Controls if planets exert forces on each other
+  barycentric: boolean; // Let fixed bodies (stars) move in response to gravity too
+  forceSolver: ForceSolverType; // Exact pairwise gravity or Barnes-Hut approximation
+  theta: number; // Barnes-Hut opening angle (smaller is more accurate)
+  showQuadtree: boolean; // Whether to draw the Barnes-Hut quadtree cells
   timeScale: number; // Controls simulation speed (1 = normal, 2 = 2x speed, etc.)
   fps: number;
   G: number; // Gravitational constant
+  softening: number; // Plummer softening length ε (0 = pure inverse-square)
+  forceLaws: ForceLawType[]; // Enabled pairwise force laws
+  forceLawParameters: ForceLawParameters; // Constants for Coulomb, Yukawa and the power law
+  environment: EnvironmentSettings; // Drag, uniform field and dark-matter halo for this scene
+  integrator: IntegratorType; // Numerical integration scheme for the live simulation and orbit predictions
+  fixedTimeStep: number; // Simulated seconds per physics step
+  maxSubsteps: number; // Maximum physics steps per frame when catching up
+  adaptiveTimeStep: boolean; // Subdivide steps during close encounters
+  minTimeStep: number; // Smallest adaptive substep in simulated seconds
+  maxTimeStep: number; // Largest adaptive substep in simulated seconds
+  substeps: number; // Substeps per fixed step reported by the latest snapshot
+  simulationTime: number; // Simulated seconds elapsed
+  seed: number; // Seed for the random velocities of non-orbital bodies
+  collisionMode: CollisionMode; // Merge, bounce or pass through when bodies touch
+  restitution: number; // Coefficient of restitution for bouncing collisions
+  eventLog: EventLogEntry[]; // Most recent simulation events, oldest first
+  closeApproachDistance: number; // Surface gap below which a pass is logged as a close approach
+  showEventLog: boolean; // Whether the event log panel is expanded
+  diagnostics: DiagnosticsSample | null; // Latest conservation measurement
+  diagnosticsHistory: DiagnosticsSample[]; // Samples since the current baseline, oldest first
+  driftThreshold: number; // Relative drift above which the diagnostics panel warns
+  showDiagnostics: boolean; // Whether the diagnostics panel is expanded
+  showOrbitDialog: boolean; // Whether the create-from-orbital-elements dialog is open
+  showLagrangePoints: boolean; // Whether to mark the selected body's Lagrange points and Hill sphere
+  historyInterval: number; // Simulated seconds between recorded timeline frames
+  timelineRange: { start: number; end: number } | null; // Times the recorded timeline covers
+  seekTime: number | null; // Timeline time the canvas should rewind to, until it has
+  focusRequest: FocusRequest | null; // Bodies the canvas should center the view on next
+  momentumResetRequest: boolean; // Whether the canvas should cancel the scene's net momentum next
+  forkEnabled: boolean; // Whether a what-if copy of the scene runs alongside it
+  sceneFileRequest: SceneFileRequest | null; // File or link operation the canvas should carry out next
+  sceneError: string | null; // Why the last scene could not be loaded
+  presetRequest: string | null; // Id of the preset scenario the canvas should load next
   setIsPlaying: (isPlaying: boolean) => void;
   togglePlaying: () => void;
   setShowForces: (showForces: boolean) => void;
@@ -19,20 +129,104 @@ interface SimulationState {
   toggleShowTrails: () => void; // Toggle orbit trails visualization
   setPlanetaryForces: (planetaryForces: boolean) => void;
   togglePlanetaryForces: () => void;
+  setBarycentric: (barycentric: boolean) => void;
+  toggleBarycentric: () => void;
+  setForceSolver: (forceSolver: ForceSolverType) => void;
+  setTheta: (theta: number) => void;
+  setShowQuadtree: (showQuadtree: boolean) => void;
+  toggleShowQuadtree: () => void; // Toggle quadtree debug overlay
   setTimeScale: (timeScale: number) => void; // Set simulation speed
   setFps: (fps: number) => void;
   setG: (g: number) => void; // Set gravitational constant
+  setSoftening: (softening: number) => void;
+  setForceLaws: (forceLaws: ForceLawType[]) => void;
+  toggleForceLaw: (forceLaw: ForceLawType) => void; // Enable or disable one law
+  setForceLawParameters: (parameters: Partial<ForceLawParameters>) => void;
+  setEnvironment: (environment: Partial<EnvironmentSettings>) => void;
+  setIntegrator: (integrator: IntegratorType) => void; // Set integration scheme
+  setFixedTimeStep: (fixedTimeStep: number) => void;
+  setMaxSubsteps: (maxSubsteps: number) => void;
+  setAdaptiveTimeStep: (adaptiveTimeStep: boolean) => void;
+  toggleAdaptiveTimeStep: () => void;
+  setMinTimeStep: (minTimeStep: number) => void;
+  setMaxTimeStep: (maxTimeStep: number) => void;
+  setSubsteps: (substeps: number) => void;
+  setSimulationTime: (simulationTime: number) => void;
+  setSeed: (seed: number) => void;
+  setCollisionMode: (collisionMode: CollisionMode) => void;
+  setRestitution: (restitution: number) => void;
+  logEvents: (entries: Omit<EventLogEntry, 'id'>[]) => void; // Append events to the log
+  clearEventLog: () => void;
+  setCloseApproachDistance: (closeApproachDistance: number) => void;
+  toggleShowEventLog: () => void;
+  recordDiagnostics: (sample: DiagnosticsSample) => void;
+  setDriftThreshold: (driftThreshold: number) => void;
+  setShowDiagnostics: (showDiagnostics: boolean) => void;
+  toggleShowDiagnostics: () => void;
+  setShowOrbitDialog: (showOrbitDialog: boolean) => void;
+  setShowLagrangePoints: (showLagrangePoints: boolean) => void;
+  toggleShowLagrangePoints: () => void;
+  setHistoryInterval: (historyInterval: number) => void;
+  setTimelineRange: (timelineRange: { start: number; end: number } | null) => void;
+  setSeekTime: (seekTime: number | null) => void;
+  setFocusRequest: (focusRequest: FocusRequest | null) => void;
+  setMomentumResetRequest: (momentumResetRequest: boolean) => void;
+  setForkEnabled: (forkEnabled: boolean) => void;
+  toggleForkEnabled: () => void;
+  setSceneFileRequest: (sceneFileRequest: SceneFileRequest | null) => void;
+  setSceneError: (sceneError: string | null) => void;
+  setPresetRequest: (presetRequest: string | null) => void;
+  applySceneSettings: (settings: SceneSettings) => void; // Take over the settings of a loaded scene
 }
 
+let nextEventId = 1;
+
 export const useSimulationStore = create<SimulationState>((set) => ({
   isPlaying: true,
   showForces: true,
   showOrbits: true, // Default to showing orbits
   showTrails: true, // Default to showing orbit trails
   planetaryForces: true, // Default to true for realistic simulation
+  barycentric: false, // Stars stay pinned by default
+  forceSolver: 'direct', // Exact summation is the reference mode
+  theta: DEFAULT_THETA,
+  showQuadtree: false,
   timeScale: 1, // Default to normal speed
   fps: 0,
   G: 6.67430, // Gravitational constant (scaled for our simulation)
+  softening: DEFAULT_SOFTENING,
+  forceLaws: ['inverse-square'], // Plain Newtonian gravity
+  forceLawParameters: DEFAULT_FORCE_LAW_PARAMETERS,
+  environment: DEFAULT_ENVIRONMENT, // Empty space
+  integrator: 'verlet', // Symplectic by default so orbits don't drift
+  fixedTimeStep: DEFAULT_FIXED_TIME_STEP,
+  maxSubsteps: DEFAULT_MAX_SUBSTEPS,
+  adaptiveTimeStep: false,
+  minTimeStep: DEFAULT_MIN_TIME_STEP,
+  maxTimeStep: DEFAULT_MAX_TIME_STEP,
+  substeps: 1,
+  simulationTime: 0,
+  seed: DEFAULT_SEED,
+  collisionMode: 'merge', // Bodies combine on contact by default
+  restitution: DEFAULT_RESTITUTION,
+  eventLog: [],
+  closeApproachDistance: 20,
+  showEventLog: false,
+  diagnostics: null,
+  diagnosticsHistory: [],
+  driftThreshold: 0.01, // Warn beyond 1% drift
+  showDiagnostics: false,
+  showOrbitDialog: false,
+  showLagrangePoints: true,
+  historyInterval: 0.5,
+  timelineRange: null,
+  seekTime: null,
+  focusRequest: null,
+  momentumResetRequest: false,
+  forkEnabled: false,
+  sceneFileRequest: null,
+  sceneError: null,
+  presetRequest: null,
   setIsPlaying: (isPlaying) => set({ isPlaying }),
   togglePlaying: () => set((state) => ({ isPlaying: !state.isPlaying })),
   setShowForces: (showForces) => set({ showForces }),
@@ -43,7 +237,82 @@ export const useSimulationStore = create<SimulationState>((set) => ({
   toggleShowTrails: () => set((state) => ({ showTrails: !state.showTrails })),
   setPlanetaryForces: (planetaryForces) => set({ planetaryForces }),
   togglePlanetaryForces: () => set((state) => ({ planetaryForces: !state.planetaryForces })),
+  setBarycentric: (barycentric) => set({ barycentric }),
+  // Switching barycentric mode on by hand frees the stars, so the scene's net
+  // momentum is cancelled to keep it from drifting off. Loaded scenes keep
+  // their velocities as saved.
+  toggleBarycentric: () => set((state) => ({ barycentric: !state.barycentric, momentumResetRequest: !state.barycentric })),
+  setForceSolver: (forceSolver) => set({ forceSolver }),
+  setTheta: (theta) => set({ theta }),
+  setShowQuadtree: (showQuadtree) => set({ showQuadtree }),
+  toggleShowQuadtree: () => set((state) => ({ showQuadtree: !state.showQuadtree })),
   setTimeScale: (timeScale) => set({ timeScale }),
   setFps: (fps) => set({ fps }),
   setG: (g) => set({ G: g }),
+  setSoftening: (softening) => set({ softening }),
+  setForceLaws: (forceLaws) => set({ forceLaws }),
+  toggleForceLaw: (forceLaw) => set((state) => ({
+    forceLaws: state.forceLaws.includes(forceLaw)
+      ? state.forceLaws.filter(law => law !== forceLaw)
+      : [...state.forceLaws, forceLaw]
+  })),
+  setForceLawParameters: (parameters) => set((state) => ({
+    forceLawParameters: { ...state.forceLawParameters, ...parameters }
+  })),
+  setEnvironment: (environment) => set((state) => ({
+    environment: { ...state.environment, ...environment }
+  })),
+  setIntegrator: (integrator) => set({ integrator }),
+  setFixedTimeStep: (fixedTimeStep) => set({ fixedTimeStep }),
+  setMaxSubsteps: (maxSubsteps) => set({ maxSubsteps }),
+  setAdaptiveTimeStep: (adaptiveTimeStep) => set({ adaptiveTimeStep }),
+  toggleAdaptiveTimeStep: () => set((state) => ({ adaptiveTimeStep: !state.adaptiveTimeStep })),
+  setMinTimeStep: (minTimeStep) => set({ minTimeStep }),
+  setMaxTimeStep: (maxTimeStep) => set({ maxTimeStep }),
+  setSubsteps: (substeps) => set({ substeps }),
+  setSimulationTime: (simulationTime) => set({ simulationTime }),
+  setSeed: (seed) => set({ seed }),
+  setCollisionMode: (collisionMode) => set({ collisionMode }),
+  setRestitution: (restitution) => set({ restitution }),
+  logEvents: (entries) => set((state) => ({
+    eventLog: [
+      ...state.eventLog,
+      ...entries.map(entry => ({ ...entry, id: nextEventId++ }))
+    ].slice(-MAX_EVENT_LOG_ENTRIES)
+  })),
+  clearEventLog: () => set({ eventLog: [] }),
+  setCloseApproachDistance: (closeApproachDistance) => set({ closeApproachDistance }),
+  toggleShowEventLog: () => set((state) => ({ showEventLog: !state.showEventLog })),
+  recordDiagnostics: (sample) => set((state) => {
+    const last = state.diagnosticsHistory[state.diagnosticsHistory.length - 1];
+
+    // A new baseline starts a new series
+    if (!last || last.epoch !== sample.epoch) {
+      return { diagnostics: sample, diagnosticsHistory: [sample] };
+    }
+    if (sample.time - last.time < DIAGNOSTICS_HISTORY_INTERVAL) {
+      return { diagnostics: sample };
+    }
+    return {
+      diagnostics: sample,
+      diagnosticsHistory: [...state.diagnosticsHistory, sample].slice(-MAX_DIAGNOSTICS_HISTORY)
+    };
+  }),
+  setDriftThreshold: (driftThreshold) => set({ driftThreshold }),
+  setShowDiagnostics: (showDiagnostics) => set({ showDiagnostics }),
+  toggleShowDiagnostics: () => set((state) => ({ showDiagnostics: !state.showDiagnostics })),
+  setShowOrbitDialog: (showOrbitDialog) => set({ showOrbitDialog }),
+  setShowLagrangePoints: (showLagrangePoints) => set({ showLagrangePoints }),
+  toggleShowLagrangePoints: () => set((state) => ({ showLagrangePoints: !state.showLagrangePoints })),
+  setHistoryInterval: (historyInterval) => set({ historyInterval }),
+  setTimelineRange: (timelineRange) => set({ timelineRange }),
+  setSeekTime: (seekTime) => set({ seekTime }),
+  setFocusRequest: (focusRequest) => set({ focusRequest }),
+  setMomentumResetRequest: (momentumResetRequest) => set({ momentumResetRequest }),
+  setForkEnabled: (forkEnabled) => set({ forkEnabled }),
+  toggleForkEnabled: () => set((state) => ({ forkEnabled: !state.forkEnabled })),
+  setSceneFileRequest: (sceneFileRequest) => set({ sceneFileRequest }),
+  setSceneError: (sceneError) => set({ sceneError }),
+  setPresetRequest: (presetRequest) => set({ presetRequest }),
+  applySceneSettings: (settings) => set({ ...settings, seekTime: null, timelineRange: null, diagnosticsHistory: [], diagnostics: null }),
 })); 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import type { ReactNode } from 'react';
+
+// Canvas geometry and the shape of canvas items, shared by the components,
+// the store and the physics defaults without importing the Canvas component.
+
+// Base item interface that all item types will extend
+export interface BaseItem {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  type: string;
+  data: any;
+}
+
+// Item types that take part in the simulation
+const BODY_ITEM_TYPES = ['planet', 'spacecraft'];
+
+/**
+ * Whether a canvas item is simulated as a physics body
+ */
+export const isBodyItem = (item: BaseItem): boolean => BODY_ITEM_TYPES.includes(item.type);
+
+// Definition for any item type configuration
+export interface ItemTypeConfig {
+  defaultWidth: number;
+  defaultHeight: number;
+  defaultData: any;
+  render: (item: BaseItem) => ReactNode;
+}
+
+// Constants for canvas size
+export const CANVAS_WIDTH = 100000;
+export const CANVAS_HEIGHT = 100000;
+export const CANVAS_CENTER_X = CANVAS_WIDTH / 2;
+export const CANVAS_CENTER_Y = CANVAS_HEIGHT / 2;
+
+// Helper function to calculate the initial transform for centering the canvas
+export const calculateCenteredTransform = (scale: number = 1): { x: number; y: number; scale: number } => {
+  const viewportWidth = window.innerWidth;
+  const viewportHeight = window.innerHeight;
+  
+  // Position the canvas center in the middle of the viewport
+  return {
+    x: viewportWidth / 2 - CANVAS_CENTER_X * scale,
+    y: viewportHeight / 2 - CANVAS_CENTER_Y * scale,
+    scale
+  };
+};